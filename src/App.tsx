@@ -1,44 +1,68 @@
 import { Canvas } from '@react-three/fiber'
 import { OrbitControls, Stats } from '@react-three/drei'
 import { Suspense, useRef, useEffect, useState } from 'react'
-import { useAudioAnalyzer } from './hooks/useAudioAnalyzer'
+import { useAudioStore } from './stores/audioStore'
 import { useConfigStore } from './store/configStore'
 import { VisualizationRenderer } from './scenes/VisualizationRenderer'
 import { ConfigPanel } from './components/ConfigPanel'
+import { DEFAULT_TEST_SIGNALS, type TestSignalType } from './utils/testSignalGenerator'
+import { BAND_PRESETS, createBandLayout, type BandPresetName } from './utils/bandLayout'
 
 function App() {
   const audioRef = useRef<HTMLAudioElement>(null)
-  const [audioElement, setAudioElement] = useState<HTMLAudioElement | undefined>(undefined)
-  const { audioData, audioContext, sourceType, switchAudioSource } = useAudioAnalyzer(audioElement)
+  const {
+    audioData, audioContext, sourceType, initialize, setAudioElement, switchSource,
+    analyzeTrack, trackTimeline, trackAnalysisProgress, getLookAhead,
+    isRecording, recordedFrameCount, startRecording, stopRecording, exportRecording,
+    replay, replayTime, isReplayPlaying, loadReplay, playReplay, pauseReplay, seekReplay, stepReplay,
+    testSignal, setTestSignal,
+    inputDevices, selectedInputLabel, activeInputLabel, inputGains, selectInputDevice, setInputGain,
+    micCalibrations, micProcessing, micLevel, isCalibrating, calibrateMicNoiseFloor, setMicProcessing,
+    bandLayout, setBandLayout, setAudioConfig, tempoOptions, setTempoOptions,
+    manualBPM, tapTempo, setManualBPM, nudgeBeat, resyncOnNextKick
+  } = useAudioStore()
+  const inputGain = inputGains[activeInputLabel ?? selectedInputLabel ?? 'default'] ?? 1
+  const micCalibration = micCalibrations[activeInputLabel ?? selectedInputLabel ?? 'default']
+  const lookAhead = getLookAhead(2)
+  const [recordSpectrum, setRecordSpectrum] = useState(false)
+  const [customCrossovers, setCustomCrossovers] = useState('')
   const { global: globalConfig } = useConfigStore()
   const currentUrlRef = useRef<string | null>(null)
 
-  // Effet pour initialiser l'élément audio quand la ref est prête
+  // Initialisation du store audio au montage, puis source fichier par défaut
   useEffect(() => {
-    if (audioRef.current && !audioElement) {
-      console.log('🎵 Audio element ready, initializing analyzer');
-      setAudioElement(audioRef.current);
-
-      // Initialiser la source par défaut APRÈS que l'élément audio soit prêt
-      if (switchAudioSource) {
-        console.log('🎵 Initializing default file source');
-        switchAudioSource('file');
+    const setup = async () => {
+      await initialize();
+      if (audioRef.current) {
+        console.log('🎵 Audio element ready, connecting to the audio store');
+        setAudioElement(audioRef.current);
       }
-    }
-  }, [audioElement, switchAudioSource]);
+      console.log('🎵 Initializing default file source');
+      await switchSource('file');
+    };
+
+    setup();
+  }, [initialize, setAudioElement, switchSource]);
 
-  // Effet pour forcer l'initialisation au montage du composant
+  // Le lissage FFT des réglages globaux pilote les analyseurs
   useEffect(() => {
-    // Petit délai pour s'assurer que la ref est définie
-    const timer = setTimeout(() => {
-      if (audioRef.current && !audioElement) {
-        console.log('🎵 Force initializing audio element on mount');
-        setAudioElement(audioRef.current);
-      }
-    }, 100);
+    setAudioConfig({ smoothingTimeConstant: globalConfig.fftSmoothing })
+  }, [globalConfig.fftSmoothing, setAudioConfig])
 
-    return () => clearTimeout(timer);
-  }, []); // Se lance une seule fois au montage
+  // Contrôles du tempo au clavier : T = tap, [ / ] = nudge ∓1/16, K = recalage sur le prochain kick
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return
+      switch (e.key.toLowerCase()) {
+        case 't': tapTempo(); break
+        case '[': nudgeBeat(-1 / 16); break
+        case ']': nudgeBeat(1 / 16); break
+        case 'k': resyncOnNextKick(); break
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [tapTempo, nudgeBeat, resyncOnNextKick])
 
   // Add logging for BPM detection and harmony analysis
   useEffect(() => {
@@ -58,7 +82,8 @@ function App() {
         frequency: audioData.melodicFeatures.dominantFrequency.toFixed(2) + ' Hz',
         confidence: audioData.melodicFeatures.noteConfidence.toFixed(3),
         harmonicContent: audioData.melodicFeatures.harmonicContent.toFixed(3),
-        pitchClass: audioData.melodicFeatures.pitchClass.map(v => v.toFixed(3))
+        pitchClass: audioData.melodicFeatures.pitchClass.map(v => v.toFixed(3)),
+        activeNotes: audioData.melodicFeatures.activeNotes.map(n => `${n.note} (${n.salience.toFixed(2)})`)
       })
     }
 
@@ -67,7 +92,9 @@ function App() {
         centroid: audioData.spectralFeatures.centroid.toFixed(3),
         spread: audioData.spectralFeatures.spread.toFixed(3),
         flux: audioData.spectralFeatures.flux.toFixed(3),
-        rolloff: audioData.spectralFeatures.rolloff.toFixed(3)
+        rolloff: audioData.spectralFeatures.rolloff.toFixed(3),
+        flatness: audioData.spectralFeatures.flatness.toFixed(3),
+        zcr: audioData.spectralFeatures.zcr.toFixed(3)
       })
     }
   }, [
@@ -88,6 +115,9 @@ function App() {
       currentUrlRef.current = url
       audioRef.current.src = url
 
+      // Pré-analyse complète en arrière-plan pour la timeline d'anticipation
+      analyzeTrack(file)
+
       // Assurer que le contexte est prêt pour la lecture
       if (audioContext && audioContext.state === 'suspended') {
         audioContext.resume();
@@ -118,9 +148,9 @@ function App() {
     }
 
     // Force la reconnexion de la source si nécessaire
-    if (sourceType === 'file' && switchAudioSource) {
+    if (sourceType !== 'file') {
       console.log('🔄 Re-initializing file source on play');
-      await switchAudioSource('file');
+      await switchSource('file');
     }
   }
 
@@ -174,9 +204,9 @@ function App() {
           {/* --- NOUVEAU: Panneau de sélection de la source --- */}
           <div style={{ marginBottom: '15px', padding: '10px', background: 'rgba(255,255,255,0.1)', borderRadius: '4px' }}>
             <h4 style={{ margin: '0 0 10px 0', color: '#88ff88' }}>🎵 Source Audio</h4>
-            <div style={{ display: 'flex', gap: '10px' }}>
+            <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
               <button
-                  onClick={() => switchAudioSource('file')}
+                  onClick={() => switchSource('file')}
                   style={{
                     flex: 1,
                     padding: '8px',
@@ -191,7 +221,7 @@ function App() {
                 📁 Fichier
               </button>
               <button
-                  onClick={() => switchAudioSource('microphone')}
+                  onClick={() => switchSource('microphone')}
                   style={{
                     flex: 1,
                     padding: '8px',
@@ -205,49 +235,79 @@ function App() {
               >
                 🎤 Micro
               </button>
+              <button
+                  onClick={() => switchSource('testSignal')}
+                  style={{
+                    flex: 1,
+                    padding: '8px',
+                    background: sourceType === 'testSignal' ? '#008877' : '#333',
+                    border: '1px solid #555',
+                    borderRadius: '4px',
+                    color: 'white',
+                    cursor: 'pointer',
+                    transition: 'background 0.2s'
+                  }}
+              >
+                🧪 Test
+              </button>
+              <button
+                  onClick={() => switchSource('replay')}
+                  style={{
+                    flex: 1,
+                    padding: '8px',
+                    background: sourceType === 'replay' ? '#aa6600' : '#333',
+                    border: '1px solid #555',
+                    borderRadius: '4px',
+                    color: 'white',
+                    cursor: 'pointer',
+                    transition: 'background 0.2s'
+                  }}
+              >
+                🎞️ Replay
+              </button>
             </div>
           </div>
 
           {/* --- NOUVEAU: Affichage conditionnel basé sur la source --- */}
-          {sourceType === 'file' && (
-              <div id="file-controls" style={{ marginBottom: '15px' }}>
-                <input
-                    type="file"
-                    accept="audio/*"
-                    onChange={handleFileUpload}
-                    style={{ marginBottom: '10px', color: 'white' }}
-                />
-                <br />
-                <audio
-                    ref={audioRef}
-                    controls
-                    onPlay={handlePlay}
-                    style={{ width: '200px', marginBottom: '10px' }}
-                />
-                {/* Bouton de démarrage d'urgence */}
-                <div>
-                  <button
-                      onClick={async () => {
-                        console.log('🚀 Force start analysis button clicked');
-                        if (switchAudioSource) {
-                          await switchAudioSource('file');
-                        }
-                      }}
-                      style={{
-                        padding: '8px 16px',
-                        background: '#00aa00',
-                        border: '1px solid #00ff00',
-                        borderRadius: '4px',
-                        color: 'white',
-                        cursor: 'pointer',
-                        fontSize: '12px'
-                      }}
-                  >
-                    🚀 Force Start Analysis
-                  </button>
-                </div>
-              </div>
-          )}
+          {/* Toujours monté : le MediaElementSourceNode reste lié au même élément <audio> */}
+          <div id="file-controls" style={{ marginBottom: '15px', display: sourceType === 'file' ? 'block' : 'none' }}>
+            <input
+                type="file"
+                accept="audio/*"
+                onChange={handleFileUpload}
+                style={{ marginBottom: '10px', color: 'white' }}
+            />
+            <br />
+            <audio
+                ref={audioRef}
+                controls
+                onPlay={handlePlay}
+                style={{ width: '200px', marginBottom: '10px' }}
+            />
+            {/* Bouton de démarrage d'urgence */}
+            <div>
+              <button
+                  onClick={async () => {
+                    console.log('🚀 Force start analysis button clicked');
+                    if (audioContext && audioContext.state === 'suspended') {
+                      await audioContext.resume();
+                    }
+                    await switchSource('file');
+                  }}
+                  style={{
+                    padding: '8px 16px',
+                    background: '#00aa00',
+                    border: '1px solid #00ff00',
+                    borderRadius: '4px',
+                    color: 'white',
+                    cursor: 'pointer',
+                    fontSize: '12px'
+                  }}
+              >
+                🚀 Force Start Analysis
+              </button>
+            </div>
+          </div>
 
           {sourceType === 'microphone' && (
               <div id="mic-controls" style={{
@@ -269,6 +329,82 @@ function App() {
                     animation: 'pulse 1.5s infinite'
                   }}></span>
                 </p>
+                <div style={{ marginTop: '8px', fontSize: '12px' }}>
+                  <select
+                      value={selectedInputLabel ?? ''}
+                      onChange={(e) => selectInputDevice(e.target.value || null)}
+                      style={{ width: '100%', marginBottom: '6px' }}
+                  >
+                    <option value="">Entrée par défaut</option>
+                    {selectedInputLabel && !inputDevices.some(device => device.label === selectedInputLabel) && (
+                        <option value={selectedInputLabel}>{selectedInputLabel} (absente)</option>
+                    )}
+                    {inputDevices.map(device => (
+                        <option key={device.deviceId || device.label} value={device.label}>{device.label}</option>
+                    ))}
+                  </select>
+                  <div style={{ color: '#aaa', marginBottom: '4px' }}>Active: {activeInputLabel ?? '—'}</div>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    Gain
+                    <input
+                        type="range"
+                        min={0}
+                        max={4}
+                        step={0.05}
+                        value={inputGain}
+                        onChange={(e) => setInputGain(parseFloat(e.target.value))}
+                        style={{ flex: 1 }}
+                    />
+                    {(20 * Math.log10(Math.max(inputGain, 0.001))).toFixed(1)} dB
+                  </label>
+                  {/* Calibration du bruit de fond, noise gate et AGC */}
+                  <div style={{ marginTop: '6px', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <button onClick={() => calibrateMicNoiseFloor(3)} disabled={isCalibrating}>
+                      {isCalibrating ? 'Silence... (3 s)' : 'Calibrate noise floor'}
+                    </button>
+                    <span style={{ color: '#aaa' }}>
+                      {micCalibration ? `${micCalibration.noiseFloor.toFixed(1)} dBFS` : 'not calibrated'}
+                    </span>
+                  </div>
+                  <div style={{ marginTop: '4px', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <label>
+                      <input
+                          type="checkbox"
+                          checked={micProcessing.gateEnabled}
+                          onChange={(e) => setMicProcessing({ gateEnabled: e.target.checked })}
+                      /> Gate +
+                    </label>
+                    <input
+                        type="number"
+                        min={0}
+                        max={40}
+                        value={micProcessing.gateMargin}
+                        onChange={(e) => setMicProcessing({ gateMargin: parseFloat(e.target.value) || 0 })}
+                        style={{ width: '40px' }}
+                    /> dB
+                    <label>
+                      <input
+                          type="checkbox"
+                          checked={micProcessing.agcEnabled}
+                          onChange={(e) => setMicProcessing({ agcEnabled: e.target.checked })}
+                      /> AGC
+                    </label>
+                    <input
+                        type="number"
+                        min={-60}
+                        max={-3}
+                        value={micProcessing.agcTarget}
+                        onChange={(e) => setMicProcessing({ agcTarget: parseFloat(e.target.value) || -20 })}
+                        style={{ width: '40px' }}
+                    /> dBFS
+                  </div>
+                  {micLevel && (
+                      <div style={{ marginTop: '4px', color: '#aaa' }}>
+                        In: {micLevel.input.toFixed(1)} dBFS | AGC: {micLevel.gain >= 0 ? '+' : ''}{micLevel.gain.toFixed(1)} dB |
+                        Gate: <span style={{ color: micLevel.gateOpen ? '#00ff00' : '#ff4444' }}>{micLevel.gateOpen ? 'open' : 'closed'}</span>
+                      </div>
+                  )}
+                </div>
                 <style>
                   {`
                       @keyframes pulse {
@@ -281,6 +417,136 @@ function App() {
               </div>
           )}
 
+          {sourceType === 'testSignal' && (
+              <div id="test-signal-controls" style={{
+                padding: '10px',
+                background: 'rgba(0,136,119,0.2)',
+                borderRadius: '4px',
+                marginBottom: '15px',
+                border: '1px solid rgba(0,136,119,0.5)',
+                fontSize: '12px'
+              }}>
+                <select
+                    value={testSignal.type}
+                    onChange={(e) => setTestSignal(DEFAULT_TEST_SIGNALS[e.target.value as TestSignalType])}
+                    style={{ width: '100%', marginBottom: '8px' }}
+                >
+                  <option value="sweep">Sine sweep</option>
+                  <option value="pinkNoise">Pink noise</option>
+                  <option value="clickTrack">Click track</option>
+                  <option value="note">Sustained note</option>
+                  <option value="triad">Triad</option>
+                </select>
+                {testSignal.type === 'sweep' && (
+                    <div>
+                      {testSignal.from} Hz → {testSignal.to} Hz en{' '}
+                      <input
+                          type="number"
+                          min={1}
+                          value={testSignal.duration}
+                          onChange={(e) => setTestSignal({ ...testSignal, duration: Math.max(1, Number(e.target.value)) })}
+                          style={{ width: '50px' }}
+                      /> s
+                    </div>
+                )}
+                {testSignal.type === 'clickTrack' && (
+                    <div>
+                      BPM:{' '}
+                      <input
+                          type="number"
+                          min={40}
+                          max={240}
+                          value={testSignal.bpm}
+                          onChange={(e) => setTestSignal({ ...testSignal, bpm: Math.min(240, Math.max(40, Number(e.target.value))) })}
+                          style={{ width: '60px' }}
+                      />
+                    </div>
+                )}
+                {testSignal.type === 'note' && (
+                    <div>
+                      Note:{' '}
+                      <select
+                          value={String(testSignal.pitch)}
+                          onChange={(e) => setTestSignal({ ...testSignal, pitch: e.target.value })}
+                      >
+                        {['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'].flatMap(name =>
+                            [2, 3, 4, 5].map(octave => `${name}${octave}`)
+                        ).map(note => <option key={note} value={note}>{note}</option>)}
+                      </select>
+                    </div>
+                )}
+                {testSignal.type === 'triad' && (
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                      <select
+                          value={testSignal.key}
+                          onChange={(e) => setTestSignal({ ...testSignal, key: e.target.value })}
+                      >
+                        {['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'].map(key =>
+                            <option key={key} value={key}>{key}</option>
+                        )}
+                      </select>
+                      <select
+                          value={testSignal.mode}
+                          onChange={(e) => setTestSignal({ ...testSignal, mode: e.target.value as 'major' | 'minor' })}
+                      >
+                        <option value="major">major</option>
+                        <option value="minor">minor</option>
+                      </select>
+                    </div>
+                )}
+                <div style={{ marginTop: '6px', color: '#aaa' }}>
+                  Détecté: {audioData.rhythmicFeatures.bpm.toFixed(1)} BPM | {audioData.melodicFeatures.dominantNote} | {audioData.musicalContext.key} {audioData.musicalContext.mode}
+                </div>
+              </div>
+          )}
+
+          {sourceType === 'replay' && (
+              <div id="replay-controls" style={{
+                padding: '10px',
+                background: 'rgba(170,102,0,0.2)',
+                borderRadius: '4px',
+                marginBottom: '15px',
+                border: '1px solid rgba(170,102,0,0.5)',
+                fontSize: '12px'
+              }}>
+                <input
+                    type="file"
+                    accept=".jsonl,application/x-ndjson"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) loadReplay(file)
+                    }}
+                    style={{ marginBottom: '10px', color: 'white' }}
+                />
+                {replay ? (
+                    <>
+                      <div style={{ display: 'flex', gap: '6px', marginBottom: '6px' }}>
+                        <button onClick={() => stepReplay(-1)}>⏮</button>
+                        <button onClick={() => isReplayPlaying ? pauseReplay() : playReplay()}>
+                          {isReplayPlaying ? '⏸' : '▶️'}
+                        </button>
+                        <button onClick={() => stepReplay(1)}>⏭</button>
+                        <span style={{ marginLeft: 'auto' }}>
+                          {replayTime.toFixed(2)}s / {replay.duration.toFixed(2)}s
+                        </span>
+                      </div>
+                      <input
+                          type="range"
+                          min={0}
+                          max={replay.duration}
+                          step={0.01}
+                          value={replayTime}
+                          onChange={(e) => seekReplay(parseFloat(e.target.value))}
+                          style={{ width: '100%' }}
+                      />
+                      <div style={{ color: '#aaa' }}>Frame {replay.currentIndex + 1} / {replay.frameCount}</div>
+                    </>
+                ) : (
+                    <div style={{ color: '#aaa' }}>Chargez un enregistrement JSONL (⏺ Recorder)</div>
+                )}
+              </div>
+          )}
+
           {sourceType === 'none' && (
               <div style={{
                 padding: '10px',
@@ -295,6 +561,56 @@ function App() {
               </div>
           )}
 
+          {/* Enregistrement des trames analysées */}
+          <div style={{ marginBottom: '15px', padding: '10px', background: 'rgba(255,255,255,0.1)', borderRadius: '4px', fontSize: '12px' }}>
+            <h4 style={{ margin: '0 0 10px 0', color: '#ff6666' }}>⏺ Recorder</h4>
+            <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '8px' }}>
+              <button
+                  onClick={() => isRecording ? stopRecording() : startRecording({ includeSpectrum: recordSpectrum })}
+                  style={{
+                    padding: '6px 12px',
+                    background: isRecording ? '#cc0000' : '#333',
+                    border: '1px solid #555',
+                    borderRadius: '4px',
+                    color: 'white',
+                    cursor: 'pointer'
+                  }}
+              >
+                {isRecording ? '⏹ Stop' : '⏺ Record'}
+              </button>
+              <span>{recordedFrameCount} frames</span>
+            </div>
+            <label style={{ display: 'block', marginBottom: '8px' }}>
+              <input
+                  type="checkbox"
+                  checked={recordSpectrum}
+                  disabled={isRecording}
+                  onChange={(e) => setRecordSpectrum(e.target.checked)}
+              />
+              {' '}Inclure le spectre brut (JSONL)
+            </label>
+            <div style={{ display: 'flex', gap: '10px' }}>
+              {(['jsonl', 'csv'] as const).map(format => (
+                  <button
+                      key={format}
+                      onClick={() => exportRecording(format)}
+                      disabled={isRecording || recordedFrameCount === 0}
+                      style={{
+                        flex: 1,
+                        padding: '6px',
+                        background: '#333',
+                        border: '1px solid #555',
+                        borderRadius: '4px',
+                        color: 'white',
+                        cursor: 'pointer'
+                      }}
+                  >
+                    💾 Export {format.toUpperCase()}
+                  </button>
+              ))}
+            </div>
+          </div>
+
           {/* Basic Audio Metrics */}
           <div style={{ marginTop: '15px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
             <h3 style={{ margin: '0 0 5px 0', color: '#88ff88' }}>📊 Basic Metrics</h3>
@@ -315,6 +631,80 @@ function App() {
             <div>Treble: {Math.round(audioData.bands.treble * 100)}% | Dynamic: {Math.round(audioData.dynamicBands.treble * 100)}%</div>
           </div>
 
+          {/* Multi-band */}
+          <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
+            <h3 style={{ margin: '0 0 5px 0', color: '#ff88cc' }}>🎛️ Multi-band</h3>
+            <select
+                value={bandLayout.name in BAND_PRESETS ? bandLayout.name : 'custom'}
+                onChange={(e) => {
+                  if (e.target.value in BAND_PRESETS) setBandLayout(BAND_PRESETS[e.target.value as BandPresetName])
+                }}
+                style={{ marginBottom: '6px' }}
+            >
+              {Object.keys(BAND_PRESETS).map(name => <option key={name} value={name}>{name}</option>)}
+              <option value="custom" disabled>custom</option>
+            </select>
+            <div style={{ display: 'flex', gap: '6px', marginBottom: '6px' }}>
+              <input
+                  type="text"
+                  placeholder="Coupures Hz: 80, 300, 3000"
+                  value={customCrossovers}
+                  onChange={(e) => setCustomCrossovers(e.target.value)}
+                  style={{ flex: 1 }}
+              />
+              <button
+                  onClick={() => {
+                    const crossovers = customCrossovers.split(',').map(Number).filter(freq => freq > 20 && freq < 20000)
+                    if (crossovers.length > 0) setBandLayout(createBandLayout('custom', crossovers))
+                  }}
+              >
+                OK
+              </button>
+            </div>
+            {audioData.multiBand.names.map(name => {
+              const band = audioData.multiBand.bands[name]
+              return (
+                  <div key={name} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <span style={{ width: '70px', color: band.transient ? '#ffff00' : 'white' }}>{name}</span>
+                    <div style={{ flex: 1, height: '6px', background: '#333' }}>
+                      <div style={{ width: `${Math.round(band.dynamic * 100)}%`, height: '100%', background: '#ff88cc' }} />
+                    </div>
+                  </div>
+              )
+            })}
+          </div>
+
+          {/* Stereo */}
+          <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
+            <h3 style={{ margin: '0 0 5px 0', color: '#88ccff' }}>🎧 Stereo</h3>
+            <div>Width: {Math.round(audioData.stereo.width * 100)}% | Correlation: {audioData.stereo.correlation.toFixed(2)}</div>
+            <div>
+              Pan B/M/T: {audioData.stereo.pan.bass.toFixed(2)} / {audioData.stereo.pan.mid.toFixed(2)} / {audioData.stereo.pan.treble.toFixed(2)}
+            </div>
+          </div>
+
+          {/* Look-ahead (pré-analyse du fichier) */}
+          {sourceType === 'file' && (trackTimeline || trackAnalysisProgress !== null) && (
+              <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
+                <h3 style={{ margin: '0 0 5px 0', color: '#cc88ff' }}>🔮 Look-ahead</h3>
+                {trackAnalysisProgress !== null && (
+                    <div>Pré-analyse: {Math.round(trackAnalysisProgress * 100)}%</div>
+                )}
+                {trackTimeline && (
+                    <>
+                      <div>Track: {trackTimeline.analysis.bpm.toFixed(1)} BPM | {trackTimeline.analysis.key} {trackTimeline.analysis.mode}</div>
+                      <div>Section: {lookAhead?.currentSection?.label ?? 'N/A'}
+                        {lookAhead?.sectionChangeIn != null && ` → ${lookAhead.nextSection?.label} in ${lookAhead.sectionChangeIn.toFixed(1)}s`}
+                      </div>
+                      <div style={{ color: lookAhead?.nextDropIn != null ? '#ff4444' : '#666' }}>
+                        Next drop: {lookAhead?.nextDropIn != null ? `${lookAhead.nextDropIn.toFixed(2)}s` : '—'}
+                      </div>
+                      <div>Build-up: {Math.round((lookAhead?.buildup ?? 0) * 100)}%</div>
+                    </>
+                )}
+              </div>
+          )}
+
           {/* Transients */}
           <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
             <h3 style={{ margin: '0 0 5px 0', color: '#ffaa00' }}>⚡ Transients</h3>
@@ -332,19 +722,80 @@ function App() {
               Overall: {audioData.transients.overall ? '●' : '○'}
             </span>
             </div>
+            <div style={{ display: 'flex', gap: '10px', marginTop: '5px' }}>
+              <span style={{ color: audioData.percussion.kick ? '#ff4444' : '#666' }}>
+                Kick: {audioData.percussion.kick ? '●' : '○'}
+              </span>
+              <span style={{ color: audioData.percussion.snare ? '#ffdd44' : '#666' }}>
+                Snare: {audioData.percussion.snare ? '●' : '○'}
+              </span>
+              <span style={{ color: audioData.percussion.hihat ? '#44ddff' : '#666' }}>
+                Hi-hat: {audioData.percussion.hihat ? '●' : '○'}
+              </span>
+            </div>
           </div>
 
           {/* Rhythmic Features */}
           <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
             <h3 style={{ margin: '0 0 5px 0', color: '#8888ff' }}>🥁 Rhythm Analysis</h3>
-            <div>BPM: <strong>{audioData.rhythmicFeatures.bpm.toFixed(1)}</strong>
+            <div>BPM: <strong>{audioData.rhythmicFeatures.bpm.toFixed(1)}</strong>{audioData.rhythmicFeatures.bpmLocked && ' 🔒'}
               <span style={{ color: audioData.rhythmicFeatures.bpmConfidence > 0.5 ? '#00ff00' : '#ff8800' }}>
               ({Math.round(audioData.rhythmicFeatures.bpmConfidence)}% confidence)
             </span>
             </div>
             <div>Beat Phase: {audioData.rhythmicFeatures.beatPhase.toFixed(3)}</div>
+            <div>Bar: {[0, 1, 2, 3].map(beat => (
+              <span key={beat} style={{ color: audioData.rhythmicFeatures.beatInBar === beat ? (beat === 0 ? '#ff4444' : '#00ff00') : '#444' }}>●</span>
+            ))}</div>
             <div>Subdivision: {audioData.rhythmicFeatures.subdivision}</div>
             <div>Groove: {Math.round(audioData.rhythmicFeatures.groove)}%</div>
+            <div>Candidates: {audioData.rhythmicFeatures.tempoCandidates.slice(0, 3).map(candidate => (
+              `${candidate.bpm.toFixed(1)} (${Math.round(candidate.score * 100)}%)`
+            )).join(' · ') || 'N/A'}</div>
+            <div style={{ marginTop: '5px' }}>
+              Range:{' '}
+              <input
+                  type="number"
+                  defaultValue={tempoOptions.minBPM}
+                  onBlur={(e) => setTempoOptions({ minBPM: Number(e.target.value) })}
+                  style={{ width: '45px' }}
+              />
+              {' - '}
+              <input
+                  type="number"
+                  defaultValue={tempoOptions.maxBPM}
+                  onBlur={(e) => setTempoOptions({ maxBPM: Number(e.target.value) })}
+                  style={{ width: '45px' }}
+              />
+              {' '}Prefer:{' '}
+              <input
+                  type="number"
+                  defaultValue={tempoOptions.preferredBPM}
+                  onBlur={(e) => setTempoOptions({ preferredBPM: Number(e.target.value) })}
+                  style={{ width: '45px' }}
+              />
+            </div>
+            <div style={{ marginTop: '5px', display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+              <button onClick={tapTempo} title="T">👆 Tap</button>
+              <button onClick={() => setManualBPM(manualBPM === null ? Math.round(audioData.rhythmicFeatures.bpm * 10) / 10 || 120 : null)}>
+                {manualBPM === null ? '🔒 Lock' : '🔓 Unlock'}
+              </button>
+              <button onClick={() => nudgeBeat(-1 / 16)} title="[">−1/16</button>
+              <button onClick={() => nudgeBeat(1 / 16)} title="]">+1/16</button>
+              <button onClick={resyncOnNextKick} title="K">🦶 Resync</button>
+            </div>
+            {manualBPM !== null && (
+                <div>
+                  Manual BPM:{' '}
+                  <input
+                      type="number"
+                      key={manualBPM}
+                      defaultValue={manualBPM}
+                      onBlur={(e) => setManualBPM(Number(e.target.value))}
+                      style={{ width: '55px' }}
+                  />
+                </div>
+            )}
           </div>
 
           {/* Enhanced Melodic Features - YIN Algorithm */}
@@ -395,6 +846,46 @@ function App() {
             <div style={{ marginTop: '5px' }}>
               Dominant Chroma: {['C','C#','D','D#','E','F','F#','G','G#','A','A#','B'][audioData.timbreProfile.dominantChroma] || 'N/A'}
             </div>
+            {/* MFCC c1-c12 (c0 = niveau global, omis) : empreinte de timbre, bleu positif / orange négatif */}
+            <div style={{ marginTop: '5px' }}>MFCC:</div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '2px', height: '30px' }}>
+              {audioData.mfcc.coefficients.slice(1).map((value, index) => (
+                <div key={index} title={`c${index + 1}: ${value.toFixed(1)} (Δ ${audioData.mfcc.deltas[index + 1].toFixed(1)}/s)`} style={{
+                  flex: 1,
+                  height: `${Math.min(100, Math.abs(value) * 2)}%`,
+                  background: value >= 0 ? '#88aaff' : '#ffaa66'
+                }} />
+              ))}
+            </div>
+          </div>
+
+          {/* Loudness */}
+          <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
+            <h3 style={{ margin: '0 0 5px 0', color: '#88ccff' }}>🔊 Loudness</h3>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '5px' }}>
+              <div>Momentary: {audioData.loudness.momentary.toFixed(1)} LUFS</div>
+              <div>Short-term: {audioData.loudness.shortTerm.toFixed(1)} LUFS</div>
+              <div>Peak: {audioData.loudness.peak.toFixed(1)} dBFS</div>
+              <div>Crest: {audioData.loudness.crestFactor.toFixed(1)} dB</div>
+            </div>
+            <div style={{ marginTop: '5px' }}>
+              Auto gain: ×{audioData.loudness.normalizationGain.toFixed(2)}
+            </div>
+          </div>
+
+          {/* Structure */}
+          <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
+            <h3 style={{ margin: '0 0 5px 0', color: '#ffaa88' }}>🎬 Structure</h3>
+            <div>Section: <strong style={{
+              color: { intro: '#88aaff', buildup: '#ffaa44', drop: '#ff4444', breakdown: '#88ffcc', outro: '#aa88ff' }[audioData.structure.section]
+            }}>{audioData.structure.section}</strong> ({Math.round(audioData.structure.confidence * 100)}%)</div>
+            <div>Since: {audioData.structure.sectionDuration.toFixed(1)} s
+              {audioData.structure.previousSection && ` (after ${audioData.structure.previousSection})`}
+            </div>
+            <div>Novelty: {Math.round(audioData.structure.novelty * 100)}%</div>
+            <div>Build-up: {Math.round(audioData.buildupProgress * 100)}%
+              {audioData.timeToDrop >= 0 && ` — drop in ~${audioData.timeToDrop.toFixed(1)} s`}
+            </div>
           </div>
 
           {/* NEW: Musical Context */}
@@ -409,6 +900,9 @@ function App() {
             {audioData.musicalContext.notePresent ? '●' : '○'}
           </span></div>
             <div>Note Stability: {Math.round(audioData.musicalContext.noteStability * 100)}%</div>
+            <div>Chord: <strong>{audioData.musicalContext.chord}</strong> <span style={{ color: '#888' }}>
+            ({audioData.musicalContext.chordQuality}, {Math.round(audioData.musicalContext.chordConfidence * 100)}%)
+          </span></div>
             <div>Harmonic Tension: <span style={{
               color: audioData.musicalContext.tension > 0.7 ? '#ff4444' :
                   audioData.musicalContext.tension > 0.4 ? '#ffaa44' : '#44ff44'
@@ -422,8 +916,15 @@ function App() {
             <div>Spread (Width): {Math.round(audioData.spectralFeatures.spread * 100)}%</div>
             <div>Flux (Change): {Math.round(audioData.spectralFeatures.flux * 100)}%</div>
             <div>Rolloff (Focus): {Math.round(audioData.spectralFeatures.rolloff * 100)}%</div>
+            <div>Flatness (Noisy): {Math.round(audioData.spectralFeatures.flatness * 100)}%
+              <span style={{ color: '#888' }}> {audioData.spectralFeatures.flatness > 0.3 ? 'noisy' : 'tonal'}</span>
+            </div>
+            <div>Crest (Peaky): {Math.round(audioData.spectralFeatures.crest * 100)}%</div>
+            <div>Skewness: {audioData.spectralFeatures.skewness.toFixed(2)} | Kurtosis: {Math.round(audioData.spectralFeatures.kurtosis * 100)}%</div>
+            <div>Slope: {audioData.spectralFeatures.slope.toFixed(2)}</div>
+            <div>ZCR: {Math.round(audioData.spectralFeatures.zcr * 100)}% | HFC: {Math.round(audioData.spectralFeatures.hfc * 100)}%</div>
             <div style={{ fontSize: '10px', color: '#888', marginTop: '5px' }}>
-              FFT Bins: {audioData.frequencies.length} | Sample Rate: ~{audioData.frequencies.length * 2 * 22.05} Hz
+              FFT Size: {audioData.fftSize} ({audioData.frequencies.length} bins) | Sample Rate: {audioData.sampleRate} Hz
             </div>
           </div>
         </div>
@@ -1,10 +1,13 @@
 import React from 'react';
 import { useConfigStore } from '../store/configStore';
+import { useAudioStore } from '../stores/audioStore';
 import { scenes, scenesById } from '../scenes';
 import type { SceneSettingControl } from '../scenes/sceneTypes';
 
 export function ConfigPanel() {
   const {
+    global,
+    updateGlobalSettings,
     visualization,
     setVisualization,
     updateVisualizationSettings,
@@ -13,6 +16,7 @@ export function ConfigPanel() {
     activeConfigTab,
     setActiveConfigTab,
   } = useConfigStore();
+  const { audioConfig, setAudioConfig } = useAudioStore();
 
   if (!showConfigPanel) {
     return (
@@ -169,7 +173,88 @@ export function ConfigPanel() {
 
       {activeConfigTab === 'global' && (
         <div>
-          {/* Global settings controls here */}
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Auto Loudness:</label>
+            <select
+              value={String(global.autoLoudness)}
+              onChange={(e) => updateGlobalSettings({ autoLoudness: e.target.value === 'true' })}
+              style={selectStyle}
+            >
+              <option value="true">On (-14 LUFS)</option>
+              <option value="false">Off</option>
+            </select>
+          </div>
+
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Volume Trim:</label>
+            <input
+              type="range"
+              min={0.25}
+              max={4}
+              step={0.05}
+              value={global.volumeMultiplier}
+              onChange={(e) => updateGlobalSettings({ volumeMultiplier: parseFloat(e.target.value) })}
+              style={inputStyle}
+            />
+            <span style={{ fontSize: '11px', color: '#aaa' }}>×{global.volumeMultiplier.toFixed(2)}</span>
+          </div>
+
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>FFT Smoothing:</label>
+            <input
+              type="range"
+              min={0}
+              max={0.99}
+              step={0.01}
+              value={global.fftSmoothing}
+              onChange={(e) => updateGlobalSettings({ fftSmoothing: parseFloat(e.target.value) })}
+              style={inputStyle}
+            />
+            <span style={{ fontSize: '11px', color: '#aaa' }}>{global.fftSmoothing.toFixed(2)}</span>
+          </div>
+
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>FFT Size:</label>
+            <select
+              value={audioConfig.fftSize}
+              onChange={(e) => setAudioConfig({ fftSize: parseInt(e.target.value, 10) })}
+              style={selectStyle}
+            >
+              {[256, 512, 1024, 2048, 4096, 8192, 16384, 32768].map((size) => (
+                <option key={size} value={size}>
+                  {size} ({size / 2} bins)
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Min Decibels:</label>
+            <input
+              type="range"
+              min={-140}
+              max={-40}
+              step={1}
+              value={audioConfig.minDecibels}
+              onChange={(e) => setAudioConfig({ minDecibels: parseFloat(e.target.value) })}
+              style={inputStyle}
+            />
+            <span style={{ fontSize: '11px', color: '#aaa' }}>{audioConfig.minDecibels} dB</span>
+          </div>
+
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Max Decibels:</label>
+            <input
+              type="range"
+              min={-30}
+              max={0}
+              step={1}
+              value={audioConfig.maxDecibels}
+              onChange={(e) => setAudioConfig({ maxDecibels: parseFloat(e.target.value) })}
+              style={inputStyle}
+            />
+            <span style={{ fontSize: '11px', color: '#aaa' }}>{audioConfig.maxDecibels} dB</span>
+          </div>
         </div>
       )}
 
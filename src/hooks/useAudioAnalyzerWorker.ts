@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react';
+import { AnalysisWorkerClient } from '../workers/analysisWorkerClient';
+import { createInitialAudioData } from '../utils/AudioAnalysisEngine';
+import { audioEvents } from '../utils/audioEvents';
+import type { AudioData, AudioSourceType } from '../types/audio';
+
+// Hook autonome (hors store) dont toute l'analyse tourne dans un Web Worker.
+// Même pipeline que le backend worker de useAudioStore, même forme d'AudioData.
+export function useAudioAnalyzerWorker(audioSource?: HTMLAudioElement) {
+  const [audioData, setAudioData] = useState<AudioData>(() => createInitialAudioData());
+  const [sourceType, setSourceType] = useState<AudioSourceType>('none');
+  const sourceTypeRef = useRef<AudioSourceType>('none');
+
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const workerClientRef = useRef<AnalysisWorkerClient | null>(null);
+  const initPromiseRef = useRef<Promise<void> | null>(null);
+
+  const fileSourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const micSourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const fileGainNodeRef = useRef<GainNode | null>(null);
+  const micGainNodeRef = useRef<GainNode | null>(null);
+  const mediaStreamRef = useRef<MediaStream | null>(null);
+
+  const initializeAudio = (): Promise<void> => {
+    // Une seule initialisation, même si plusieurs appels se chevauchent
+    if (initPromiseRef.current) return initPromiseRef.current;
+
+    initPromiseRef.current = (async () => {
+      try {
+        const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+        const context = new AudioContextClass();
+        audioContextRef.current = context;
+
+        if (!AnalysisWorkerClient.isSupported(context)) {
+          throw new Error('AudioWorklet ou Web Worker indisponible');
+        }
+
+        // Le worker poste une AudioData complète par bloc d'échantillons ; ses événements partent sur le bus
+        const client = await AnalysisWorkerClient.create(context, (data) => {
+          setAudioData(data);
+          audioEvents.emit(data.events);
+        });
+        workerClientRef.current = client;
+
+        fileGainNodeRef.current = context.createGain();
+        micGainNodeRef.current = context.createGain();
+        fileGainNodeRef.current.gain.value = 0;
+        micGainNodeRef.current.gain.value = 0;
+
+        // Les deux sources vont vers la capture ; seul le fichier va aux haut-parleurs (pas de feedback micro)
+        fileGainNodeRef.current.connect(client.input);
+        micGainNodeRef.current.connect(client.input);
+        fileGainNodeRef.current.connect(context.destination);
+
+        console.log('🧵 Pipeline d\'analyse worker initialisé. Sample Rate:', context.sampleRate);
+      } catch (error) {
+        console.error("Erreur lors de l'initialisation du pipeline worker:", error);
+        alert("Impossible d'initialiser l'audio. Votre navigateur est peut-être incompatible.");
+      }
+    })();
+
+    return initPromiseRef.current;
+  };
+
+  const stopMicrophone = () => {
+    if (mediaStreamRef.current) {
+      mediaStreamRef.current.getTracks().forEach(track => track.stop());
+      mediaStreamRef.current = null;
+    }
+    if (micSourceNodeRef.current) {
+      micSourceNodeRef.current.disconnect();
+      micSourceNodeRef.current = null;
+    }
+  };
+
+  const switchAudioSource = async (source: AudioSourceType) => {
+    await initializeAudio();
+
+    const context = audioContextRef.current;
+    if (!context || !workerClientRef.current) {
+      console.error('❌ Pipeline worker non disponible');
+      return;
+    }
+
+    if (context.state === 'suspended') {
+      try {
+        await context.resume();
+      } catch (error) {
+        console.error('❌ Failed to resume AudioContext:', error);
+      }
+    }
+
+    if (source === 'file') {
+      fileGainNodeRef.current?.gain.setValueAtTime(1, context.currentTime);
+      micGainNodeRef.current?.gain.setValueAtTime(0, context.currentTime);
+      stopMicrophone();
+
+      // Le MediaElementSourceNode ne peut être créé qu'une seule fois par élément
+      if (audioSource && !fileSourceNodeRef.current) {
+        try {
+          fileSourceNodeRef.current = context.createMediaElementSource(audioSource);
+          fileSourceNodeRef.current.connect(fileGainNodeRef.current!);
+        } catch (error) {
+          if (error instanceof DOMException && error.name === 'InvalidStateError') {
+            console.warn('Source fichier déjà connectée.');
+          } else {
+            console.error('Erreur de connexion de la source fichier:', error);
+          }
+        }
+      }
+
+      setSourceType('file');
+    } else if (source === 'microphone') {
+      micGainNodeRef.current?.gain.setValueAtTime(1, context.currentTime);
+      fileGainNodeRef.current?.gain.setValueAtTime(0, context.currentTime);
+
+      if (!micSourceNodeRef.current) {
+        try {
+          const stream = await navigator.mediaDevices.getUserMedia({
+            audio: {
+              echoCancellation: false,
+              noiseSuppression: false,
+              autoGainControl: false
+            }
+          });
+          mediaStreamRef.current = stream;
+          micSourceNodeRef.current = context.createMediaStreamSource(stream);
+          micSourceNodeRef.current.connect(micGainNodeRef.current!);
+        } catch (error) {
+          console.error('❌ Erreur lors de la connexion du microphone:', error);
+          alert("Impossible d'accéder au microphone. Veuillez vérifier vos permissions.");
+          return;
+        }
+      }
+
+      setSourceType('microphone');
+    } else {
+      fileGainNodeRef.current?.gain.setValueAtTime(0, context.currentTime);
+      micGainNodeRef.current?.gain.setValueAtTime(0, context.currentTime);
+      stopMicrophone();
+      setSourceType('none');
+    }
+
+    // Nouvelle source : on repart d'enveloppes et d'historiques vierges
+    if (sourceTypeRef.current !== source) {
+      sourceTypeRef.current = source;
+      workerClientRef.current.reset();
+    }
+  };
+
+  useEffect(() => {
+    return () => {
+      stopMicrophone();
+      workerClientRef.current?.dispose();
+      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
+        audioContextRef.current.close();
+      }
+    };
+  }, []);
+
+  return {
+    audioData,
+    audioContext: audioContextRef.current,
+    sourceType,
+    switchAudioSource,
+  };
+}
@@ -2,8 +2,10 @@
 import { useFrame } from '@react-three/fiber';
 import { useRef } from 'react';
 import * as THREE from 'three';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { AudioData } from '../types/audio';
 import type { SceneDefinition } from './sceneTypes';
+import { getVolumeGain } from '../utils/audioUtils';
+import { useAudioEvent } from '../stores/audioStore';
 
 // 1. Define the settings interface
 interface Bars2DSettings {
@@ -14,6 +16,7 @@ interface Bars2DSettings {
   barWidth: number;
   spacing: number;
   baseColor: string;
+  kickPulse: number; // Bump of the whole bar group on each kick (0 = off)
 }
 
 // 2. Create the scene component
@@ -22,6 +25,12 @@ const Bars2DComponent: React.FC<{ audioData: AudioData; config: Bars2DSettings;
     const barRefs = useRef<(THREE.Mesh | null)[]>([])
     const targetHeights = useRef<number[]>([])
     const currentHeights = useRef<number[]>([])
+    const kickPulse = useRef(0)
+    
+    // Kick only: a snare or a bass note does not bump the bars
+    useAudioEvent('drumHit', (hit) => {
+      if (hit.label === 'kick') kickPulse.current = Math.max(kickPulse.current, hit.strength)
+    })
     
     // Initialize arrays
     if (targetHeights.current.length !== config.barCount) {
@@ -32,6 +41,12 @@ const Bars2DComponent: React.FC<{ audioData: AudioData; config: Bars2DSettings;
     useFrame(() => {
       if (!groupRef.current) return
       
+      const volumeGain = getVolumeGain(audioData, globalConfig)
+      
+      // Kick pulse, decaying between hits
+      groupRef.current.scale.y = 1 + kickPulse.current * config.kickPulse
+      kickPulse.current *= 0.85
+      
       // Update each bar based on frequency data
       barRefs.current.forEach((bar, index) => {
         if (!bar || index >= config.barCount) return
@@ -40,8 +55,8 @@ const Bars2DComponent: React.FC<{ audioData: AudioData; config: Bars2DSettings;
         const frequencyIndex = Math.floor((index / config.barCount) * audioData.frequencies.length)
         const frequency = audioData.frequencies[frequencyIndex] || 0
         
-        // Calculate target height with volume multiplier
-        const normalizedFreq = (frequency / 255) * globalConfig.volumeMultiplier
+        // Calculate target height with loudness normalization and volume multiplier
+        const normalizedFreq = Math.min(1, (frequency / 255) * volumeGain)
         targetHeights.current[index] = Math.max(0.1, normalizedFreq * config.maxHeight)
         
         // Smooth interpolation
@@ -125,6 +140,7 @@ export const bars2DScene: SceneDefinition<Bars2DSettings> = {
       barWidth: 0.8,
       spacing: 1.2,
       baseColor: '#00ffff',
+      kickPulse: 0.3,
     },
     schema: {
       barCount: {
@@ -148,6 +164,13 @@ export const bars2DScene: SceneDefinition<Bars2DSettings> = {
         max: 0.95,
         step: 0.05,
       },
+      kickPulse: {
+        type: 'slider',
+        label: 'Kick Pulse',
+        min: 0,
+        max: 1,
+        step: 0.05,
+      },
       colorMode: {
         type: 'select',
         label: 'Color Mode',
@@ -1,9 +1,11 @@
 import { useRef, useMemo, useState, useEffect } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { AudioData } from '../types/audio';
 import type { SceneDefinition, SceneSettingsSchema } from './sceneTypes';
 import type { GlobalSettings } from '../types/config';
+import { useAudioStore, useAudioEvent } from '../stores/audioStore';
+import type { AudioEvent } from '../utils/audioEvents';
 
 // 1. Define the settings interface
 interface ChainSpellSettings {
@@ -417,6 +419,12 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
     // Audio data refs
     const frequencyDataRef = useRef<Float32Array>(new Float32Array(64));
     const melodicHighlightRef = useRef<number[]>(new Array(64).fill(0));
+
+    // Nouvelle taille de FFT : le mapping change, les intensités lissées de l'ancien mapping sont vidées
+    useEffect(() => {
+        frequencyDataRef.current.fill(0);
+        melodicHighlightRef.current.fill(0);
+    }, [audioData.frequencies.length]);
     const frameCount = useRef<number>(0);
     const smoothedHueRef = useRef<number>(0); // AJOUTEZ CETTE LIGNE
 
@@ -429,8 +437,18 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
         lastTrigger: 0
     });
 
+    // Événements reçus depuis la dernière image : aucun onset ni drop n'est perdu si une image saute
+    const pendingEventsRef = useRef<AudioEvent[]>([]);
+    const collectEvent = (event: AudioEvent) => {
+        pendingEventsRef.current.push(event);
+    };
+    useAudioEvent('onset', collectEvent);
+    useAudioEvent('drop', collectEvent);
+    useAudioEvent('downbeat', collectEvent);
+    useAudioEvent('sectionChange', collectEvent);
+
     // Determine if chain break should trigger based on multiple audio criteria
-    const shouldTriggerBreak = (audioData: AudioData, config: ChainSpellSettings) => {
+    const shouldTriggerBreak = (audioData: AudioData, config: ChainSpellSettings, events: AudioEvent[]) => {
         const now = performance.now() / 1000;
         const timeSinceLastTrigger = now - chainBreakState.current.lastTrigger;
 
@@ -440,9 +458,28 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
         // SYSTÈME DE SCORE OPTIMISÉ POUR RÉDUIRE LES DÉCLENCHEMENTS
         let triggerScore = 0;
 
+        const onsetBands = new Set<string>();
+        let dropEvent = false;
+        let downbeat = false;
+        let enteredDrop = false;
+        for (const event of events) {
+            if (event.type === 'onset') onsetBands.add(event.band);
+            else if (event.type === 'drop') dropEvent ||= event.intensity > config.chainBreakSensitivity + 0.1;
+            else if (event.type === 'downbeat') downbeat = true;
+            else if (event.type === 'sectionChange') enteredDrop ||= event.section === 'drop';
+        }
+        const overallOnset = onsetBands.has('overall');
+
         // 1. Déclencheurs principaux (seuils augmentés)
-        if (audioData.transients.overall) triggerScore += 2;
-        if (audioData.dropIntensity > config.chainBreakSensitivity + 0.1) triggerScore += 3; // Seuil augmenté
+        if (overallOnset) triggerScore += 2;
+        if (dropEvent) triggerScore += 3; // Seuil augmenté
+        if (enteredDrop) triggerScore += 3; // La structure confirme l'entrée dans un drop
+        if (downbeat && overallOnset) triggerScore += 1; // Impact calé sur le premier temps
+
+        // 1b. Anticipation : drop imminent d'après la pré-analyse du morceau
+        // La rupture démarre juste avant le drop au lieu de le suivre
+        const lookAhead = useAudioStore.getState().getLookAhead(config.chainBreakDuration);
+        if (lookAhead?.nextDropIn != null && lookAhead.nextDropIn < 0.3) triggerScore += 3;
 
         // 2. Déclencheurs d'énergie (seuils plus stricts)
         const energyThreshold = 0.75; // Augmenté de 0.6 à 0.75
@@ -457,8 +494,8 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
         if (audioData.dynamicBands.treble > 0.8) triggerScore += 1;
 
         // 4. Déclencheurs de transients spécifiques (points réduits)
-        if (audioData.transients.bass && audioData.transients.treble) triggerScore += 1; // Réduit de 2 à 1
-        else if (audioData.transients.bass || audioData.transients.treble) triggerScore += 0.5; // Réduit de 1 à 0.5
+        if (onsetBands.has('bass') && onsetBands.has('treble')) triggerScore += 1; // Réduit de 2 à 1
+        else if (onsetBands.has('bass') || onsetBands.has('treble')) triggerScore += 0.5; // Réduit de 1 à 0.5
 
         // 5. Déclencheur de variance spectrale (seuil augmenté)
         const spectralVariance = audioData.frequencies.reduce((acc, freq, i, arr) => {
@@ -484,7 +521,7 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
         let requiredScore = 4; // Augmenté de 3 à 4
 
         // Ajustement du seuil selon le contexte (moins permissif)
-        if (audioData.transients.overall && audioData.energy > 0.8) {
+        if (overallOnset && audioData.energy > 0.8) {
             requiredScore = 3; // Nécessite les deux conditions
         } else if (audioData.energy > 0.9) { // Seuil augmenté de 0.8 à 0.9
             requiredScore = 3;
@@ -495,7 +532,7 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
         // Debug logging avec score arrondi
         if (triggerScore > 0) {
             const roundedScore = Math.round(triggerScore * 10) / 10;
-            console.log(`🎵 Chain break score: ${roundedScore}/${requiredScore} | Energy: ${audioData.energy.toFixed(2)} | Drop: ${audioData.dropIntensity.toFixed(2)} | Transients: ${audioData.transients.overall}`);
+            console.log(`🎵 Chain break score: ${roundedScore}/${requiredScore} | Energy: ${audioData.energy.toFixed(2)} | Drop: ${audioData.dropIntensity.toFixed(2)} | Onsets: ${[...onsetBands].join(',') || '-'}`);
         }
 
         return triggerScore >= requiredScore;
@@ -556,8 +593,7 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
     const findFrequencySegment = (frequency: number, frequencyMapping: number[]): number => {
         if (frequency <= 0) return -1;
 
-        const sampleRate = 44100;
-        const binIndex = Math.floor((frequency / (sampleRate / 2)) * audioData.frequencies.length);
+        const binIndex = Math.floor((frequency / (audioData.sampleRate / 2)) * audioData.frequencies.length);
 
         let closestSegment = 0;
         let minDistance = Math.abs(frequencyMapping[0] - binIndex);
@@ -574,8 +610,8 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
     };
 
     const frequencyMapping = useMemo(() =>
-            createFrequencyMapping(config.chainSegments, audioData.frequencies.length, config.frequencyScale, 44100),
-        [config.chainSegments, audioData.frequencies.length, config.frequencyScale]
+            createFrequencyMapping(config.chainSegments, audioData.frequencies.length, config.frequencyScale, audioData.sampleRate),
+        [config.chainSegments, audioData.frequencies.length, config.frequencyScale, audioData.sampleRate]
     );
 
     // Create shader material with uniforms
@@ -748,7 +784,7 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
 
                 // Calculate frequency position for band assignment
                 const freqPosition = i / config.chainSegments;
-                const nyquist = 22050; // Half of typical sample rate
+                const nyquist = audioData.sampleRate / 2;
                 const binSize = nyquist / audioData.frequencies.length;
                 const actualFreq = freqIndex * binSize;
 
@@ -838,30 +874,41 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
                 frequencyDataRef.current[i] = frequencyDataRef.current[i] * temporalSmoothing + smoothedIntensities[i] * (1 - temporalSmoothing);
             }
 
-            // Melodic visualization
-            if (config.melodicVisualization && audioData.melodicFeatures.noteConfidence > 0.3) {
-                const fundamentalSegment = findFrequencySegment(audioData.melodicFeatures.dominantFrequency, frequencyMapping);
+            // Melodic visualization : toutes les notes détectées (polyphonie), sinon la note dominante
+            const { activeNotes, dominantFrequency, noteConfidence } = audioData.melodicFeatures;
+            const soundingNotes = activeNotes.length > 0
+                ? activeNotes.map(note => ({ frequency: note.frequency, confidence: note.salience }))
+                : noteConfidence > 0.3
+                    ? [{ frequency: dominantFrequency, confidence: noteConfidence }]
+                    : [];
+
+            if (config.melodicVisualization) {
+                for (const { frequency, confidence } of soundingNotes) {
+                    const fundamentalSegment = findFrequencySegment(frequency, frequencyMapping);
+                    if (fundamentalSegment < 0 || fundamentalSegment >= config.chainSegments) continue;
 
-                if (fundamentalSegment >= 0 && fundamentalSegment < config.chainSegments) {
                     // Highlight fundamental frequency
-                    melodicHighlightRef.current[fundamentalSegment] = audioData.melodicFeatures.noteConfidence * config.melodicHighlightIntensity;
+                    melodicHighlightRef.current[fundamentalSegment] = Math.max(
+                        melodicHighlightRef.current[fundamentalSegment],
+                        confidence * config.melodicHighlightIntensity
+                    );
 
                     // Harmonic resonance
                     if (config.harmonicResonance) {
                         // Highlight harmonics
                         for (let harmonic = 2; harmonic <= 6; harmonic++) {
-                            const harmonicSegment = findFrequencySegment(audioData.melodicFeatures.dominantFrequency * harmonic, frequencyMapping);
+                            const harmonicSegment = findFrequencySegment(frequency * harmonic, frequencyMapping);
                             if (harmonicSegment >= 0 && harmonicSegment < config.chainSegments) {
-                                const intensity = audioData.melodicFeatures.noteConfidence * config.melodicHighlightIntensity * (1.2 / Math.sqrt(harmonic));
+                                const intensity = confidence * config.melodicHighlightIntensity * (1.2 / Math.sqrt(harmonic));
                                 melodicHighlightRef.current[harmonicSegment] = Math.max(melodicHighlightRef.current[harmonicSegment], intensity);
                             }
                         }
 
                         // Highlight subharmonics
                         for (let subharmonic = 2; subharmonic <= 3; subharmonic++) {
-                            const subharmonicSegment = findFrequencySegment(audioData.melodicFeatures.dominantFrequency / subharmonic, frequencyMapping);
+                            const subharmonicSegment = findFrequencySegment(frequency / subharmonic, frequencyMapping);
                             if (subharmonicSegment >= 0 && subharmonicSegment < config.chainSegments) {
-                                const intensity = audioData.melodicFeatures.noteConfidence * config.melodicHighlightIntensity * (0.8 / subharmonic);
+                                const intensity = confidence * config.melodicHighlightIntensity * (0.8 / subharmonic);
                                 melodicHighlightRef.current[subharmonicSegment] = Math.max(melodicHighlightRef.current[subharmonicSegment], intensity);
                             }
                         }
@@ -885,8 +932,10 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
         const now = state.clock.elapsedTime;
 
         // Check for trigger
+        const events = pendingEventsRef.current;
+        pendingEventsRef.current = [];
         if (config.chainBreakEnabled && !chainBreakState.current.isActive) {
-            if (shouldTriggerBreak(audioData, config)) {
+            if (shouldTriggerBreak(audioData, config, events)) {
                 // Trigger the animation
                 chainBreakState.current.isActive = true;
                 chainBreakState.current.startTime = now;
@@ -1,10 +1,11 @@
 import { useFrame } from '@react-three/fiber';
-import { useRef, useMemo } from 'react';
+import { useRef, useMemo, useState, useEffect } from 'react';
 import * as THREE from 'three';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { AudioData, DrumLabel } from '../types/audio';
 import type { SceneDefinition, SceneSettingsSchema } from './sceneTypes';
-import { getAudioValue, applyReactivityCurve } from '../utils/audioUtils';
+import { getAudioValue, applyReactivityCurve, getVolumeGain } from '../utils/audioUtils';
 import type { GlobalSettings, AudioLink, ConstellationFormation, ConnectionType, ColorMode } from '../types/config';
+import { useAudioEvent } from '../stores/audioStore';
 
 // 1. Define the settings interface
 interface ConstellationSettings {
@@ -17,13 +18,20 @@ interface ConstellationSettings {
   particleAudioLink: AudioLink;
   formationSpeed: number;
   explosionIntensity: number;
+  explosionTrigger: DrumLabel | 'beat'; // Drum hit that fires the explosion ('beat' = any overall transient)
   trailLength: number;
   colorMode: ColorMode;
   baseColor: string;
   formationScale: number;
   rotationSpeed: [number, number, number];
+  chordReactive: boolean; // Chord changes cycle the formation
+  buildupTension: number; // 0-1, contraction and desaturation during build-ups
+  noiseMorph: number; // 0-1, noisy sounds scatter the particles and dissolve the connections, tonal sounds keep the lattice solid
 }
 
+const FORMATION_CYCLE: ConstellationFormation[] = ['sphere', 'spiral', 'dnahelix', 'cube', 'torus'];
+const CHORD_ROOTS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
 interface Particle {
   position: THREE.Vector3;
   targetPosition: THREE.Vector3;
@@ -43,6 +51,24 @@ const ConstellationVivanteComponent: React.FC<{ audioData: AudioData; config: Co
   const groupRef = useRef<THREE.Group>(null);
   const particlesRef = useRef<(THREE.Mesh | null)[]>([]);
   const connectionLinesRef = useRef<THREE.BufferGeometry | null>(null);
+  const connectionMaterialRef = useRef<THREE.LineBasicMaterial>(null);
+  const noisinessRef = useRef(0);
+
+  // Chord cues: formation imposed by the last chord change, and hue following the chord root
+  const [chordFormation, setChordFormation] = useState<ConstellationFormation | null>(null);
+  const lastChordChangeRef = useRef(audioData.musicalContext.chordChangeTime);
+  const chordHueRef = useRef(0);
+  const formation = config.chordReactive && chordFormation ? chordFormation : config.formation;
+
+  // Frappe reçue depuis la dernière image (force 0-1), consommée par l'explosion
+  const pendingHitRef = useRef(0);
+  useAudioEvent('drumHit', (hit) => {
+    if (hit.label === config.explosionTrigger) pendingHitRef.current = Math.max(pendingHitRef.current, hit.strength);
+  });
+
+  useEffect(() => {
+    setChordFormation(null);
+  }, [config.formation, config.chordReactive]);
 
   // Initialize particles with formation
   const particles = useMemo<Particle[]>(() => {
@@ -66,7 +92,7 @@ const ConstellationVivanteComponent: React.FC<{ audioData: AudioData; config: Co
   // Calculate connections based on formation structure and mode
   const connections = useMemo<Connection[]>(() => {
     if (config.connectionType === 'formation-based') {
-      return generateFormationConnections(config.particleCount, config.formation);
+      return generateFormationConnections(config.particleCount, formation);
     } else if (config.connectionType === 'proximity') {
       // Sequential connections for organic flow
       const connectionArray: Connection[] = [];
@@ -99,25 +125,56 @@ const ConstellationVivanteComponent: React.FC<{ audioData: AudioData; config: Co
     }
 
     return [];
-  }, [particles.length, config.connectionType, config.formation, config.particleCount]);
+  }, [particles.length, config.connectionType, formation, config.particleCount]);
 
 
   useFrame((state) => {
     if (!groupRef.current) return;
 
     const time = state.clock.elapsedTime;
-    const audioValue = getAudioValue(audioData, config.particleAudioLink);
+    const audioValue = Math.min(1, getAudioValue(audioData, config.particleAudioLink) * getVolumeGain(audioData, globalConfig));
     const curvedAudioValue = applyReactivityCurve(audioValue, globalConfig.reactivityCurve);
+    const { chord, chordRoot, chordQuality, chordChangeTime } = audioData.musicalContext;
+
+    // Chord change: move on to the next formation
+    if (chordChangeTime !== lastChordChangeRef.current) {
+      lastChordChangeRef.current = chordChangeTime;
+      if (config.chordReactive && chord !== 'N/A') {
+        const current = FORMATION_CYCLE.indexOf(formation);
+        setChordFormation(FORMATION_CYCLE[(current + 1) % FORMATION_CYCLE.length]);
+      }
+    }
+
+    // Hue glides towards the chord root (shortest way around the colour wheel)
+    const rootIndex = CHORD_ROOTS.indexOf(chordRoot);
+    if (rootIndex >= 0) {
+      let hueDelta = rootIndex / 12 - chordHueRef.current;
+      hueDelta -= Math.round(hueDelta);
+      chordHueRef.current = (chordHueRef.current + hueDelta * 0.05 + 1) % 1;
+    }
+    const isMinorChord = chordQuality === 'minor' || chordQuality === 'minor7' || chordQuality === 'diminished';
 
     // Global rotation
     groupRef.current.rotation.x = time * config.rotationSpeed[0];
     groupRef.current.rotation.y = time * config.rotationSpeed[1];
     groupRef.current.rotation.z = time * config.rotationSpeed[2];
 
-    // Beat explosion effect
-    const explosionScale = 1 + (audioData.beat ? curvedAudioValue * config.explosionIntensity : 0);
+    // Build-up : la constellation se resserre et se désature, le drop relâche la tension
+    const tension = audioData.buildupProgress * config.buildupTension;
+
+    // Explosion on the selected drum hit (or on any overall transient in 'beat' mode)
+    const hitStrength = config.explosionTrigger === 'beat' ? (audioData.beat ? 1 : 0) : pendingHitRef.current;
+    pendingHitRef.current = 0;
+    const explosionScale = (1 - tension * 0.3) + hitStrength * curvedAudioValue * config.explosionIntensity;
     groupRef.current.scale.lerp(new THREE.Vector3(explosionScale, explosionScale, explosionScale), 0.1);
 
+    // Bruité / tonal : la platitude spectrale (lissée) disperse les particules et efface les liaisons
+    noisinessRef.current += (audioData.spectralFeatures.flatness - noisinessRef.current) * 0.05;
+    const scatter = noisinessRef.current * config.noiseMorph;
+    if (connectionMaterialRef.current) {
+      connectionMaterialRef.current.opacity = config.connectionOpacity * (1 - scatter);
+    }
+
     // Update particles
     particles.forEach((particle, index) => {
       const mesh = particlesRef.current[index];
@@ -127,13 +184,19 @@ const ConstellationVivanteComponent: React.FC<{ audioData: AudioData; config: Co
       const formationPos = generateFormationPosition(
         index,
         config.particleCount,
-        config.formation,
+        formation,
         config.formationScale,
         time * config.formationSpeed
       );
 
       // Maintain formation shape with subtle audio influence
       particle.targetPosition.copy(formationPos);
+      if (scatter > 0.01) {
+        const jitter = scatter * config.formationScale * 0.3;
+        particle.targetPosition.x += (Math.random() - 0.5) * jitter;
+        particle.targetPosition.y += (Math.random() - 0.5) * jitter;
+        particle.targetPosition.z += (Math.random() - 0.5) * jitter;
+      }
       particle.position.lerp(particle.targetPosition, 0.1);
       mesh.position.copy(particle.position);
 
@@ -145,9 +208,15 @@ const ConstellationVivanteComponent: React.FC<{ audioData: AudioData; config: Co
       const material = mesh.material as THREE.MeshBasicMaterial;
       if (config.colorMode === 'audio-reactive') {
         const hue = (index / config.particleCount + curvedAudioValue * 0.3) % 1;
-        const saturation = 0.8 + curvedAudioValue * 0.2;
+        const saturation = (0.8 + curvedAudioValue * 0.2) * (1 - tension * 0.8);
         const lightness = 0.4 + curvedAudioValue * 0.4;
         material.color.setHSL(hue, saturation, lightness);
+      } else if (config.colorMode === 'chord') {
+        // Hue from the chord root, darker for minor/diminished chords
+        const hue = (chordHueRef.current + (index / config.particleCount) * 0.08) % 1;
+        const saturation = (chord === 'N/A' ? 0.2 : 0.85) * (1 - tension * 0.8);
+        const lightness = (isMinorChord ? 0.35 : 0.5) + curvedAudioValue * 0.3;
+        material.color.setHSL(hue, saturation, lightness);
       }
     });
 
@@ -210,6 +279,7 @@ const ConstellationVivanteComponent: React.FC<{ audioData: AudioData; config: Co
         <lineSegments>
           <primitive object={connectionGeometry} ref={connectionLinesRef} />
           <lineBasicMaterial
+            ref={connectionMaterialRef}
             color={config.baseColor}
             transparent
             opacity={config.connectionOpacity}
@@ -478,16 +548,43 @@ const schema: SceneSettingsSchema = {
       { value: 'bass', label: 'Bass' },
       { value: 'mids', label: 'Mids' },
       { value: 'treble', label: 'Treble' },
+      { value: 'band:sub', label: 'Sub (20-60 Hz)' },
+      { value: 'band:low', label: 'Low (60-250 Hz)' },
+      { value: 'band:low-mid', label: 'Low-mid (250-500 Hz)' },
+      { value: 'band:mid', label: 'Mid (500 Hz-2 kHz)' },
+      { value: 'band:presence', label: 'Presence (2-6 kHz)' },
+      { value: 'band:air', label: 'Air (6-20 kHz)' },
     ],
   },
   formationSpeed: { type: 'slider', label: 'Formation Speed', min: 0, max: 2, step: 0.1 },
   explosionIntensity: { type: 'slider', label: 'Explosion Intensity', min: 0, max: 1, step: 0.05 },
+  explosionTrigger: {
+    type: 'select',
+    label: 'Explosion Trigger',
+    options: [
+      { value: 'kick', label: 'Kick' },
+      { value: 'snare', label: 'Snare / Clap' },
+      { value: 'hihat', label: 'Hi-hat' },
+      { value: 'beat', label: 'Any Transient' },
+    ],
+  },
+  buildupTension: { type: 'slider', label: 'Build-up Tension', min: 0, max: 1, step: 0.05 },
+  noiseMorph: { type: 'slider', label: 'Noise Morph', min: 0, max: 1, step: 0.05 },
   colorMode: {
     type: 'select',
     label: 'Color Mode',
     options: [
         { value: 'static', label: 'Static' },
         { value: 'audio-reactive', label: 'Audio Reactive' },
+        { value: 'chord', label: 'Chord' },
+    ],
+  },
+  chordReactive: {
+    type: 'select',
+    label: 'Chord Changes Formation',
+    options: [
+      { value: 'true', label: 'On' },
+      { value: 'false', label: 'Off' },
     ],
   },
   baseColor: { type: 'color', label: 'Base Color' },
@@ -509,11 +606,15 @@ export const constellationScene: SceneDefinition<ConstellationSettings> = {
       particleAudioLink: 'volume',
       formationSpeed: 0.5,
       explosionIntensity: 0.3,
+      explosionTrigger: 'kick',
       trailLength: 20,
       colorMode: 'audio-reactive',
       baseColor: '#ffffff',
       formationScale: 6.0,
       rotationSpeed: [0.01, 0.005, 0.008],
+      chordReactive: false,
+      buildupTension: 0.5,
+      noiseMorph: 0.5,
     },
     schema,
   },
@@ -1,9 +1,10 @@
 import { useFrame } from '@react-three/fiber';
 import { useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { AudioData, DrumLabel } from '../types/audio';
 import type { SceneDefinition, SceneSettingsSchema } from './sceneTypes';
 import type { GlobalSettings } from '../types/config';
+import { useAudioEvent } from '../stores/audioStore';
 
 // 1. Define the settings interface
 interface HarmonicGridSettings {
@@ -13,6 +14,7 @@ interface HarmonicGridSettings {
   baseColor: string;
   bassColor: string;
   trebleFlashColor: string;
+  flashTrigger: DrumLabel | 'transient'; // Drum hit that fires the flash ('transient' = any treble/overall transient)
   // New settings for improved visualization
   frequencyScale: 'linear' | 'logarithmic' | 'mel';
   smoothingFactor: number;
@@ -41,10 +43,16 @@ const ImprovedHarmonicGridComponent: React.FC<{ audioData: AudioData; config: Ha
   const peakGridRef = useRef<number[][]>([]);
   const rippleGridRef = useRef<number[][]>([]);
   const flashDecay = useRef(0);
+  const pendingFlash = useRef(0);
   const frameCount = useRef(0);
 
   const { gridSize, spacing, heightMultiplier, baseColor, bassColor, trebleFlashColor } = config;
 
+  // Drum hits arrive between frames: keep the strongest one until the next frame
+  useAudioEvent('drumHit', (hit) => {
+    if (hit.label === config.flashTrigger) pendingFlash.current = Math.max(pendingFlash.current, 0.5 + hit.strength * 0.5);
+  });
+
   // Memoize the color buffer to avoid re-creation
   const colorBuffer = useMemo(() => new Float32Array(gridSize * gridSize * 3), [gridSize]);
 
@@ -58,7 +66,7 @@ const ImprovedHarmonicGridComponent: React.FC<{ audioData: AudioData; config: Ha
   }, [gridSize]);
 
   // Create frequency mapping based on scale type
-  const createFrequencyMapping = (numRows: number, numFreqBins: number, scale: string) => {
+  const createFrequencyMapping = (numRows: number, numFreqBins: number, scale: string, sampleRate: number) => {
     const mapping: number[] = [];
 
     switch (scale) {
@@ -70,7 +78,7 @@ const ImprovedHarmonicGridComponent: React.FC<{ audioData: AudioData; config: Ha
         for (let i = 0; i < numRows; i++) {
           const melValue = minMel + (i / numRows) * (maxMel - minMel);
           const freq = invMelScale(melValue);
-          const binIndex = Math.floor((freq / 22050) * numFreqBins);
+          const binIndex = Math.floor((freq / (sampleRate / 2)) * numFreqBins);
           mapping.push(Math.min(binIndex, numFreqBins - 1));
         }
         break;
@@ -84,7 +92,7 @@ const ImprovedHarmonicGridComponent: React.FC<{ audioData: AudioData; config: Ha
         for (let i = 0; i < numRows; i++) {
           const logValue = minLog + (i / numRows) * (maxLog - minLog);
           const freq = Math.exp(logValue);
-          const binIndex = Math.floor((freq / 22050) * numFreqBins);
+          const binIndex = Math.floor((freq / (sampleRate / 2)) * numFreqBins);
           mapping.push(Math.min(binIndex, numFreqBins - 1));
         }
         break;
@@ -101,8 +109,8 @@ const ImprovedHarmonicGridComponent: React.FC<{ audioData: AudioData; config: Ha
   };
 
   const frequencyMapping = useMemo(() =>
-          createFrequencyMapping(gridSize, audioData.frequencies.length, config.frequencyScale),
-      [gridSize, audioData.frequencies.length, config.frequencyScale]
+          createFrequencyMapping(gridSize, audioData.frequencies.length, config.frequencyScale, audioData.sampleRate),
+      [gridSize, audioData.frequencies.length, config.frequencyScale, audioData.sampleRate]
   );
 
   useFrame((_, delta) => {
@@ -193,9 +201,12 @@ const ImprovedHarmonicGridComponent: React.FC<{ audioData: AudioData; config: Ha
     }
 
     // --- Transient Flash Effect ---
-    if (transients.treble || transients.overall) {
-      flashDecay.current = 1.0;
+    if (config.flashTrigger === 'transient') {
+      if (transients.treble || transients.overall) flashDecay.current = 1.0;
+    } else if (pendingFlash.current > 0) {
+      flashDecay.current = Math.max(flashDecay.current, pendingFlash.current);
     }
+    pendingFlash.current = 0;
     flashDecay.current = Math.max(0, flashDecay.current - delta * 2.5);
 
     // --- Update InstancedMesh ---
@@ -302,6 +313,16 @@ const schema: SceneSettingsSchema = {
   baseColor: { type: 'color', label: 'Base Color' },
   bassColor: { type: 'color', label: 'Bass Color' },
   trebleFlashColor: { type: 'color', label: 'Treble Flash Color' },
+  flashTrigger: {
+    type: 'select',
+    label: 'Flash Trigger',
+    options: [
+      { value: 'kick', label: 'Kick' },
+      { value: 'snare', label: 'Snare / Clap' },
+      { value: 'hihat', label: 'Hi-hat' },
+      { value: 'transient', label: 'Any Transient' },
+    ],
+  },
   frequencyScale: {
     type: 'select',
     label: 'Frequency Scale',
@@ -334,6 +355,7 @@ export const improvedHarmonicGridScene: SceneDefinition<HarmonicGridSettings> =
       baseColor: '#00ffff',
       bassColor: '#ff00ff',
       trebleFlashColor: '#ffffff',
+      flashTrigger: 'kick',
       frequencyScale: 'logarithmic',
       smoothingFactor: 0.85,
       noiseGate: 0.05,
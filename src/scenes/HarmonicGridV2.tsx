@@ -1,7 +1,7 @@
 import { useFrame } from '@react-three/fiber';
 import { useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { AudioData } from '../types/audio';
 import type { SceneDefinition, SceneSettingsSchema } from './sceneTypes';
 import type { GlobalSettings } from '../types/config';
 
@@ -142,7 +142,7 @@ const HarmonicGridV2Component: React.FC<{ audioData: AudioData; config: Harmonic
   const colorBuffer = useMemo(() => new Float32Array(gridSize * gridSize * 3), [gridSize]);
   const particleColorBuffer = useMemo(() => new Float32Array(maxParticles * 3), []);
 
-  // Initialize grids
+  // Initialize grids (à nouveau si la taille de FFT change : l'ancien spectre n'a plus de sens)
   useEffect(() => {
     const initGrid = () => Array(gridSize).fill(0).map(() => Array(gridSize).fill(0));
     gridDataRef.current = initGrid();
@@ -150,7 +150,7 @@ const HarmonicGridV2Component: React.FC<{ audioData: AudioData; config: Harmonic
     peakGridRef.current = initGrid();
     rippleGridRef.current = initGrid();
     noteTrailsRef.current = initGrid();
-  }, [gridSize]);
+  }, [gridSize, audioData.frequencies.length]);
 
   // Create frequency mapping based on scale type
   const createFrequencyMapping = (numRows: number, numFreqBins: number, scale: string, sampleRate: number) => {
@@ -205,18 +205,15 @@ const HarmonicGridV2Component: React.FC<{ audioData: AudioData; config: Harmonic
   };
 
   const frequencyMapping = useMemo(() =>
-    createFrequencyMapping(gridSize, audioData.frequencies.length, config.frequencyScale, 44100),
-    [gridSize, audioData.frequencies.length, config.frequencyScale]
+    createFrequencyMapping(gridSize, audioData.frequencies.length, config.frequencyScale, audioData.sampleRate),
+    [gridSize, audioData.frequencies.length, config.frequencyScale, audioData.sampleRate]
   );
 
-  // Find row for a specific frequency (FIXED)
+  // Find row for a specific frequency
   const findFrequencyRow = (frequency: number): number => {
     if (frequency <= 0) return -1;
 
-    // FIXED: Use real sample rate from audioData context
-    // The sample rate is now properly captured from AudioContext in useAudioAnalyzer
-    const sampleRate = 44100; // This will be the actual sample rate from AudioContext
-    const binIndex = Math.floor((frequency / (sampleRate / 2)) * audioData.frequencies.length);
+    const binIndex = Math.floor((frequency / (audioData.sampleRate / 2)) * audioData.frequencies.length);
 
     // Find the closest row to this bin
     let closestRow = 0;
@@ -316,7 +313,7 @@ const HarmonicGridV2Component: React.FC<{ audioData: AudioData; config: Harmonic
 
           // Calculate frequency position for band assignment
           const freqPosition = row / numRows;
-          const nyquist = 22050; // Half of typical sample rate
+          const nyquist = audioData.sampleRate / 2;
           const binSize = nyquist / frequencies.length;
           const actualFreq = freqIndex * binSize;
 
@@ -1,9 +1,11 @@
 import { useFrame } from '@react-three/fiber';
 import { useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { AudioData } from '../types/audio';
 import type { SceneDefinition, SceneSettingsSchema } from './sceneTypes';
 import type { GlobalSettings } from '../types/config';
+import { useAudioStore } from '../stores/audioStore';
+import { getBPM, syncToBPM } from '../utils/audioUtils';
 
 // Settings interface - cleaned up
 interface HarmonicGridV3Settings {
@@ -145,6 +147,8 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
   // BPM sync state
   const beatPhaseRef = useRef(0);
   const scrollPositionRef = useRef(0);
+  // Horloge d'analyse extrapolée entre deux trames : le worker publie moins souvent que le rendu
+  const analysisClockRef = useRef({ frameTime: 0, elapsedAtFrame: 0 });
 
   // Particle system
   const particlesRef = useRef<TransientParticle[]>([]);
@@ -161,7 +165,7 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
   const mirrorColorBuffer = useMemo(() => new Float32Array(config.gridSize * config.gridSize * 3), [config.gridSize]);
   const particleColorBuffer = useMemo(() => new Float32Array(maxParticles * 3), []);
 
-  // Initialize grids
+  // Initialize grids (à nouveau si la taille de FFT change : l'ancien spectre n'a plus de sens)
   useEffect(() => {
     const initGrid = () => Array(config.gridSize).fill(0).map(() => Array(config.gridSize).fill(0));
     gridDataRef.current = initGrid();
@@ -169,7 +173,7 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
     peakGridRef.current = initGrid();
     rippleGridRef.current = initGrid();
     noteTrailsRef.current = initGrid();
-  }, [config.gridSize]);
+  }, [config.gridSize, audioData.frequencies.length]);
 
   // Create frequency mapping
   const createFrequencyMapping = (numRows: number, numFreqBins: number, scale: string, sampleRate: number) => {
@@ -223,16 +227,15 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
   };
 
   const frequencyMapping = useMemo(() =>
-          createFrequencyMapping(config.gridSize, audioData.frequencies.length, config.frequencyScale, 44100),
-      [config.gridSize, audioData.frequencies.length, config.frequencyScale]
+          createFrequencyMapping(config.gridSize, audioData.frequencies.length, config.frequencyScale, audioData.sampleRate),
+      [config.gridSize, audioData.frequencies.length, config.frequencyScale, audioData.sampleRate]
   );
 
   // Find row for a specific frequency
   const findFrequencyRow = (frequency: number): number => {
     if (frequency <= 0) return -1;
 
-    const sampleRate = 44100;
-    const binIndex = Math.floor((frequency / (sampleRate / 2)) * audioData.frequencies.length);
+    const binIndex = Math.floor((frequency / (audioData.sampleRate / 2)) * audioData.frequencies.length);
 
     let closestRow = 0;
     let minDistance = Math.abs(frequencyMapping[0] - binIndex);
@@ -248,7 +251,7 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
     return closestRow;
   };
 
-  useFrame((_, delta) => {
+  useFrame((state, delta) => {
     if (!meshRef.current || gridDataRef.current.length !== config.gridSize) return;
 
     frameCount.current++;
@@ -264,8 +267,14 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
     // BPM-Synced Scrolling
     let scrollAmount = 1;
 
-    if (config.bpmSyncEnabled && rhythmicFeatures.bpm > 0) {
-      const currentBeatPhase = rhythmicFeatures.beatPhase;
+    const bpm = getBPM(audioData);
+    if (config.bpmSyncEnabled && bpm > 0) {
+      const analysisClock = analysisClockRef.current;
+      if (audioData.time !== analysisClock.frameTime) {
+        analysisClock.frameTime = audioData.time;
+        analysisClock.elapsedAtFrame = state.clock.elapsedTime;
+      }
+      const currentBeatPhase = syncToBPM(audioData, audioData.time + state.clock.elapsedTime - analysisClock.elapsedAtFrame);
 
       switch (config.bpmScrollMode) {
         case 'beat':
@@ -277,7 +286,7 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
           break;
 
         case 'continuous':
-          const beatsPerSecond = rhythmicFeatures.bpm / 60;
+          const beatsPerSecond = bpm / 60;
           scrollAmount = delta * beatsPerSecond * config.beatDivision;
           scrollPositionRef.current += scrollAmount;
 
@@ -345,10 +354,15 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
 
     // FIXED: Decay ripples before adding new ones
     if (config.rippleEffect) {
+      // Look-ahead : à l'approche d'un drop, les ripples persistent et s'amplifient
+      const buildup = useAudioStore.getState().getLookAhead(2)?.buildup ?? 0;
+      const rippleDecay = config.rippleDecay + (1 - config.rippleDecay) * buildup * 0.5;
+      const rippleStrength = 1.0 + buildup;
+
       // Decay existing ripples
       for (let row = 0; row < numRows; row++) {
         for (let col = 0; col < numCols; col++) {
-          rippleGrid[row][col] *= config.rippleDecay;
+          rippleGrid[row][col] *= rippleDecay;
           // Clean up very small values to prevent accumulation
           if (rippleGrid[row][col] < 0.01) {
             rippleGrid[row][col] = 0;
@@ -362,7 +376,7 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
 
         if (transients.bass) {
           const bassRow = Math.floor(numRows * 0.15);
-          rippleGrid[bassRow][rippleCol] = 1.0;
+          rippleGrid[bassRow][rippleCol] = rippleStrength;
 
           // IMPROVED: Spawn particles with better visibility
           if (config.transientParticles && particlesRef.current.length < maxParticles) {
@@ -384,7 +398,7 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
 
         if (transients.mid) {
           const midRow = Math.floor(numRows * 0.5);
-          rippleGrid[midRow][rippleCol] = 1.0;
+          rippleGrid[midRow][rippleCol] = rippleStrength;
 
           if (config.transientParticles && particlesRef.current.length < maxParticles) {
             const worldPos = new THREE.Vector3(
@@ -405,7 +419,7 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
 
         if (transients.treble) {
           const trebleRow = Math.floor(numRows * 0.85);
-          rippleGrid[trebleRow][rippleCol] = 1.0;
+          rippleGrid[trebleRow][rippleCol] = rippleStrength;
 
           if (config.transientParticles && particlesRef.current.length < maxParticles) {
             const worldPos = new THREE.Vector3(
@@ -441,28 +455,36 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
     }
 
     // ENHANCED: Melodic highlighting with better visibility
-    if (config.melodicVisualization && melodicFeatures.noteConfidence > 0.3) {
-      const fundamentalRow = findFrequencyRow(melodicFeatures.dominantFrequency);
+    // Toutes les notes détectées (polyphonie), sinon la note dominante de YIN
+    const soundingNotes = melodicFeatures.activeNotes.length > 0
+        ? melodicFeatures.activeNotes.map(note => ({ frequency: note.frequency, confidence: note.salience }))
+        : melodicFeatures.noteConfidence > 0.3
+            ? [{ frequency: melodicFeatures.dominantFrequency, confidence: melodicFeatures.noteConfidence }]
+            : [];
+
+    if (config.melodicVisualization && soundingNotes.length > 0) {
+      for (const { frequency, confidence } of soundingNotes) {
+        const fundamentalRow = findFrequencyRow(frequency);
+        if (fundamentalRow < 0 || fundamentalRow >= numRows) continue;
 
-      if (fundamentalRow >= 0 && fundamentalRow < numRows) {
         // Stronger fundamental highlight
-        noteTrails[fundamentalRow][numCols - 1] = melodicFeatures.noteConfidence * 2.0;
+        noteTrails[fundamentalRow][numCols - 1] = Math.max(noteTrails[fundamentalRow][numCols - 1], confidence * 2.0);
 
         if (config.harmonicResonance) {
           // ENHANCED: More visible harmonics
           for (let harmonic = 2; harmonic <= 8; harmonic++) {
-            const harmonicRow = findFrequencyRow(melodicFeatures.dominantFrequency * harmonic);
+            const harmonicRow = findFrequencyRow(frequency * harmonic);
             if (harmonicRow >= 0 && harmonicRow < numRows) {
-              const intensity = melodicFeatures.noteConfidence * (1.5 / Math.sqrt(harmonic));
+              const intensity = confidence * (1.5 / Math.sqrt(harmonic));
               noteTrails[harmonicRow][numCols - 1] = Math.max(noteTrails[harmonicRow][numCols - 1], intensity);
             }
           }
 
           // Add subharmonics
           for (let subharmonic = 2; subharmonic <= 4; subharmonic++) {
-            const subharmonicRow = findFrequencyRow(melodicFeatures.dominantFrequency / subharmonic);
+            const subharmonicRow = findFrequencyRow(frequency / subharmonic);
             if (subharmonicRow >= 0 && subharmonicRow < numRows) {
-              const intensity = melodicFeatures.noteConfidence * (1.0 / subharmonic);
+              const intensity = confidence * (1.0 / subharmonic);
               noteTrails[subharmonicRow][numCols - 1] = Math.max(noteTrails[subharmonicRow][numCols - 1], intensity);
             }
           }
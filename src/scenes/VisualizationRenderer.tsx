@@ -1,7 +1,7 @@
 
 import { useConfigStore } from '../store/configStore';
 import { scenesById } from './index';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { AudioData } from '../types/audio';
 
 export function VisualizationRenderer({ audioData }: { audioData: AudioData }) {
   const { global, visualization } = useConfigStore();
@@ -1,6 +1,6 @@
 
 import type { FC } from 'react';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { AudioData } from '../types/audio';
 import type { GlobalSettings } from '../types/config';
 
 // Defines the structure for a single UI control in the settings panel
@@ -1,7 +1,37 @@
 // src/stores/audioStore.ts
+import { useEffect, useRef } from 'react';
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { AudioData, AudioSourceType } from '../hooks/useAudioAnalyzer';
+import type { AudioData, AudioSourceType } from '../types/audio';
+import { AudioAnalysisEngine, createInitialAudioData } from '../utils/AudioAnalysisEngine';
+import { AnalysisWorkerClient } from '../workers/analysisWorkerClient';
+import { MicConditionerClient, type MicLevel } from '../workers/micConditionerClient';
+import { analyzeTrack, FeatureTimeline, type LookAhead } from '../utils/trackPreAnalysis';
+import { AudioDataRecorder, type RecorderOptions, type RecordingFormat } from '../utils/audioDataRecorder';
+import { AudioDataReplay } from '../utils/audioDataReplay';
+import { TestSignalGenerator, DEFAULT_TEST_SIGNALS, type TestSignal } from '../utils/testSignalGenerator';
+import { DEFAULT_BAND_LAYOUT, type BandLayout } from '../utils/bandLayout';
+import { DEFAULT_BPM_DETECTOR_OPTIONS, type BPMDetectorOptions } from '../utils/BPMDetector';
+import { TapTempo } from '../utils/tapTempo';
+import { audioEvents, type AudioEventType, type AudioEventHandler } from '../utils/audioEvents';
+import {
+  DEFAULT_AUDIO_CONFIG,
+  DEFAULT_MIC_PROCESSING_CONFIG,
+  type AudioConfig,
+  type MicProcessingConfig
+} from '../types/config';
+import {
+  listInputDevices,
+  findDeviceByLabel,
+  loadInputDevicePreferences,
+  saveInputDevicePreferences,
+  DEFAULT_DEVICE_KEY,
+  type InputDevice,
+  type MicCalibration
+} from '../utils/inputDevices';
+
+// Où tourne l'analyse : dans le worker si possible, sinon sur le thread principal
+export type AnalysisBackend = 'worker' | 'main-thread';
 
 // Interface définissant l'état et les actions du store
 interface AudioStoreState {
@@ -12,14 +42,52 @@ interface AudioStoreState {
   audioElement: HTMLAudioElement | null;
   sourceType: AudioSourceType;
   audioData: AudioData;
+  analysisBackend: AnalysisBackend | null;
   error: string | null;
+  bandLayout: BandLayout; // Découpage de AudioData.multiBand
+  audioConfig: AudioConfig; // Réglages des analyseurs (natifs et logiciels)
+  tempoOptions: BPMDetectorOptions; // Plage de tempo et prior de la détection BPM
+  manualBPM: number | null; // Tempo verrouillé à la main (null = détection automatique)
+
+  // Pré-analyse hors-ligne du fichier chargé (source 'file')
+  trackTimeline: FeatureTimeline | null;
+  trackAnalysisProgress: number | null; // 0-1 pendant l'analyse, null sinon
+
+  // Enregistrement des trames analysées (export JSONL / CSV)
+  isRecording: boolean;
+  recordedFrameCount: number;
+
+  // Relecture d'un enregistrement (source 'replay')
+  replay: AudioDataReplay | null;
+  replayTime: number; // Secondes depuis le début de l'enregistrement
+  isReplayPlaying: boolean;
+
+  // Signal de test synthétique (source 'testSignal')
+  testSignal: TestSignal;
+
+  // Entrées audio (source 'microphone') : choix par label et gain par périphérique, persistés
+  inputDevices: InputDevice[];
+  selectedInputLabel: string | null; // null = périphérique par défaut
+  activeInputLabel: string | null; // Périphérique réellement ouvert
+  inputGains: Record<string, number>;
+  micCalibrations: Record<string, MicCalibration>; // Bruit de fond mesuré, par label
+  micProcessing: MicProcessingConfig; // Noise gate et AGC appliqués au micro avant l'analyse
+  micLevel: MicLevel | null; // Niveaux remontés par le conditionnement micro (null si indisponible)
+  isCalibrating: boolean;
 
   // Nodes Web Audio (gérés en interne mais accessibles si besoin)
   nodes: {
     fileSource: MediaElementAudioSourceNode | null;
     micSource: MediaStreamAudioSourceNode | null;
+    micInputGain: GainNode | null;
     fileGain: GainNode | null;
     micGain: GainNode | null;
+    testSignalGain: GainNode | null;
+    inputBus: GainNode | null;
+    channelSplitter: ChannelSplitterNode | null;
+    leftAnalyser: AnalyserNode | null;
+    rightAnalyser: AnalyserNode | null;
+    pitchAnalyser: AnalyserNode | null; // Fenêtre float longue pour YIN (repli thread principal)
     mediaStream: MediaStream | null;
   };
 
@@ -27,308 +95,308 @@ interface AudioStoreState {
   initialize: () => Promise<void>;
   setAudioElement: (element: HTMLAudioElement) => void;
   switchSource: (type: AudioSourceType) => Promise<void>;
+  analyzeTrack: (file: Blob) => Promise<void>;
+  getLookAhead: (horizon?: number) => LookAhead | null;
+  startRecording: (options?: Partial<RecorderOptions>) => void;
+  stopRecording: () => void;
+  exportRecording: (format: RecordingFormat) => void;
+  loadReplay: (recording: Blob | string) => Promise<void>;
+  playReplay: () => void;
+  pauseReplay: () => void;
+  seekReplay: (time: number) => void;
+  stepReplay: (frames: number) => void;
+  setTestSignal: (signal: TestSignal) => void;
+  refreshInputDevices: () => Promise<void>;
+  selectInputDevice: (label: string | null) => Promise<void>;
+  setInputGain: (gain: number) => void;
+  calibrateMicNoiseFloor: (duration?: number) => Promise<void>;
+  setMicProcessing: (config: Partial<MicProcessingConfig>) => void;
+  setBandLayout: (layout: BandLayout) => void;
+  setAudioConfig: (config: Partial<AudioConfig>) => void;
+  setTempoOptions: (options: Partial<BPMDetectorOptions>) => void;
+  tapTempo: () => void;
+  setManualBPM: (bpm: number | null) => void;
+  nudgeBeat: (beats: number) => void;
+  resyncOnNextKick: () => void;
   cleanup: () => void;
 }
 
-// Données initiales pour l'analyse
-const initialAudioData: AudioData = {
-  frequencies: new Uint8Array(512),
-  waveform: new Uint8Array(512),
-  volume: 0,
-  bands: { bass: 0, mid: 0, treble: 0 },
-  dynamicBands: { bass: 0, mid: 0, treble: 0 },
-  transients: { bass: false, mid: false, treble: false, overall: false },
-  energy: 0,
-  dropIntensity: 0,
-  spectralFeatures: { centroid: 0, spread: 0, flux: 0, rolloff: 0 },
-  melodicFeatures: {
-    dominantFrequency: 0,
-    dominantNote: 'N/A',
-    noteConfidence: 0,
-    harmonicContent: 0,
-    pitchClass: new Array(12).fill(0)
-  },
-  rhythmicFeatures: {
-    bpm: 0,
-    bpmConfidence: 0,
-    beatPhase: 0,
-    subdivision: 1,
-    groove: 0
-  },
-  timbreProfile: {
-    brightness: 0,
-    warmth: 0,
-    richness: 0,
-    clarity: 0,
-    attack: 0,
-    dominantChroma: 0,
-    harmonicComplexity: 0
-  },
-  musicalContext: {
-    notePresent: false,
-    noteStability: 0,
-    key: 'C',
-    mode: 'unknown',
-    tension: 0
-  },
-  bass: 0,
-  mids: 0,
-  treble: 0,
-  beat: false,
-  smoothedVolume: 0,
-};
-
-// Import des utilitaires d'analyse
-import { BPMDetector } from '../utils/BPMDetector';
-import { YINPitchDetector } from '../utils/YINPitchDetector';
-import { TimbreAnalyzer, type TimbreProfile, type MusicalContext } from '../utils/timbreAnalyzer';
-import { createMelFilterbank } from '../utils/melFilterbank';
-import type { FrequencyBands, Transients, SpectralFeatures, MelodicFeatures, RhythmicFeatures } from '../hooks/useAudioAnalyzer';
-
-// Configuration constantes
-const ENVELOPE_CONFIG = {
-  minDecay: 0.002,
-  maxDecay: 0.001,
-  minThreshold: 0.02,
-  adaptiveRate: 0.1,
-};
-
-const DROP_CONFIG = {
-  decay: 0.95,
-  threshold: 0.5,
-  cooldown: 500,
-};
-
-const TRANSIENT_CONFIG = {
-  bass: { threshold: 0.08, multiplier: 1.8, decay: 0.85 },
-  mid: { threshold: 0.07, multiplier: 2.0, decay: 0.9 },
-  treble: { threshold: 0.06, multiplier: 2.2, decay: 0.92 },
-  overall: { threshold: 0.12, multiplier: 1.7, decay: 0.88 },
-};
-
-// Musical constants
-const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-const A4_FREQ = 440;
-const A4_MIDI = 69;
-
-// Utilitaires d'analyse (à l'extérieur du store)
-const A_WEIGHTING = (freq: number): number => {
-  const f2 = freq * freq;
-  const f4 = f2 * f2;
-  return (12194 * 12194 * f4) /
-      ((f2 + 20.6 * 20.6) * Math.sqrt((f2 + 107.7 * 107.7) * (f2 + 737.9 * 737.9)) * (f2 + 12194 * 12194));
-};
-
-const frequencyToNote = (freq: number): { note: string; cents: number } => {
-  if (freq <= 0) return { note: 'N/A', cents: 0 };
-  const midiNumber = 12 * Math.log2(freq / A4_FREQ) + A4_MIDI;
-  const roundedMidi = Math.round(midiNumber);
-  const cents = (midiNumber - roundedMidi) * 100;
-  const octave = Math.floor(roundedMidi / 12) - 1;
-  const noteIndex = roundedMidi % 12;
-  return {
-    note: `${NOTE_NAMES[noteIndex]}${octave}`,
-    cents: Math.round(cents)
-  };
+// YIN est en O(N²) : sur le thread de rendu (repli), sa fenêtre est plafonnée quel que soit sampleBufferSize
+// (2048 échantillons couvrent encore ~43 Hz à 44.1 kHz)
+const MAIN_THREAD_PITCH_WINDOW = 2048;
+const mainThreadPitchWindow = (config: AudioConfig) => Math.min(config.sampleBufferSize, MAIN_THREAD_PITCH_WINDOW);
+
+const emptyNodes: AudioStoreState['nodes'] = {
+  fileSource: null,
+  micSource: null,
+  micInputGain: null,
+  fileGain: null,
+  micGain: null,
+  testSignalGain: null,
+  inputBus: null,
+  channelSplitter: null,
+  leftAnalyser: null,
+  rightAnalyser: null,
+  pitchAnalyser: null,
+  mediaStream: null,
 };
 
 export const useAudioStore = create<AudioStoreState>()(
   devtools(
     (set, get) => {
       let animationFrameId: number | null = null;
+      let initPromise: Promise<void> | null = null;
+
+      // Moteur d'analyse partagé avec les hooks (utilisé quand le worker n'est pas disponible)
+      const engine = new AudioAnalysisEngine();
+      let workerClient: AnalysisWorkerClient | null = null;
+      let micConditioner: MicConditionerClient | null = null;
+      let trackAnalysisController: AbortController | null = null;
+      const recorder = new AudioDataRecorder();
+      let replayFrameId: number | null = null;
+      let replayLastTick = 0;
+      let testSignalGenerator: TestSignalGenerator | null = null;
+      const devicePreferences = loadInputDevicePreferences();
+      const tapTempo = new TapTempo();
+
+      // Point de passage unique de chaque trame analysée (worker ou thread principal)
+      const publishAudioData = (audioData: AudioData) => {
+        // En replay, l'analyse live (silencieuse) ne doit pas écraser les trames rejouées
+        if (get().sourceType === 'replay') return;
+
+        if (recorder.isRecording) {
+          recorder.record(audioData);
+          set({ audioData, recordedFrameCount: recorder.frameCount }, false, 'analyze');
+        } else {
+          set({ audioData }, false, 'analyze');
+        }
+        // Après la mise à jour : un abonné qui relit le store voit la trame de l'événement
+        audioEvents.emit(audioData.events);
+      };
 
-      // État d'analyse persistant (remplace les refs du hook)
-      let analysisState = {
-        prevBands: { bass: 0, mid: 0, treble: 0 },
-        prevFrequencies: new Float32Array(512),
-        transientState: {
-          bass: { value: 0, history: new Array(10).fill(0) },
-          mid: { value: 0, history: new Array(10).fill(0) },
-          treble: { value: 0, history: new Array(10).fill(0) },
-          overall: { value: 0, history: new Array(10).fill(0) },
-        },
-        bandEnvelope: {
-          bass: { min: 0.1, max: 0.2 },
-          mid: { min: 0.1, max: 0.2 },
-          treble: { min: 0.1, max: 0.2 },
-        },
-        energyEnvelope: { min: 0.1, max: 0.2 },
-        prevNormalizedEnergy: 0,
-        dropIntensity: 0,
-        lastDropTime: 0,
-        smoothedVolume: 0,
-        yinDetector: null as YINPitchDetector | null,
-        bpmDetector: null as BPMDetector | null,
-        timbreAnalyzer: null as TimbreAnalyzer | null,
-        melFilters: [] as Float32Array[],
+      // Boucle d'analyse sur le thread principal (repli)
+      const readChannel = (node: AnalyserNode) => {
+        const frequencies = new Uint8Array(node.frequencyBinCount);
+        const waveform = new Uint8Array(node.frequencyBinCount);
+        node.getByteFrequencyData(frequencies);
+        node.getByteTimeDomainData(waveform);
+        return { frequencies, waveform };
+      };
+
+      const applyAudioConfig = (node: AnalyserNode, config: AudioConfig) => {
+        node.fftSize = config.fftSize;
+        node.smoothingTimeConstant = config.smoothingTimeConstant;
+        // Ordre d'affectation : minDecibels doit toujours rester < maxDecibels
+        if (config.minDecibels >= node.maxDecibels) {
+          node.maxDecibels = config.maxDecibels;
+          node.minDecibels = config.minDecibels;
+        } else {
+          node.minDecibels = config.minDecibels;
+          node.maxDecibels = config.maxDecibels;
+        }
       };
 
-      // Fonction d'analyse simplifiée (logique extraite du hook)
       const analyze = () => {
-        const { analyser } = get();
+        const { analyser, nodes, audioConfig } = get();
         if (!analyser) return;
 
-        const bufferLength = analyser.frequencyBinCount;
-        const frequencies = new Uint8Array(bufferLength);
-        const waveform = new Uint8Array(bufferLength);
+        const { frequencies, waveform } = readChannel(analyser);
+        const { leftAnalyser, rightAnalyser, pitchAnalyser } = nodes;
+
+        let samples: Float32Array | undefined;
+        if (pitchAnalyser) {
+          samples = new Float32Array(pitchAnalyser.fftSize);
+          pitchAnalyser.getFloatTimeDomainData(samples);
+        }
+
+        const audioData = engine.analyze({
+          frequencies,
+          waveform,
+          sampleRate: analyser.context.sampleRate,
+          time: performance.now() / 1000,
+          decibelRange: audioConfig.maxDecibels - audioConfig.minDecibels,
+          samples,
+          channels: leftAnalyser && rightAnalyser
+            ? { left: readChannel(leftAnalyser), right: readChannel(rightAnalyser) }
+            : undefined,
+        });
+
+        publishAudioData(audioData);
 
-        analyser.getByteFrequencyData(frequencies);
-        analyser.getByteTimeDomainData(waveform);
+        animationFrameId = requestAnimationFrame(analyze);
+      };
 
-        const sampleRate = analyser.context.sampleRate;
+      const resetAnalysis = () => {
+        engine.reset();
+        workerClient?.reset();
+      };
 
-        // Initialiser les analyseurs si nécessaire
-        if (!analysisState.yinDetector) {
-          analysisState.yinDetector = new YINPitchDetector(sampleRate);
-        }
-        if (!analysisState.bpmDetector) {
-          analysisState.bpmDetector = new BPMDetector(sampleRate);
+      // Boucle de relecture : avance au rythme de l'horloge réelle, s'arrête en fin d'enregistrement
+      const replayTick = (now: number) => {
+        const { replay, replayTime } = get();
+        if (!replay) return;
+
+        const elapsed = (now - replayLastTick) / 1000;
+        replayLastTick = now;
+        const time = Math.min(replayTime + elapsed, replay.duration);
+
+        const fromIndex = replay.currentIndex;
+        set({ audioData: replay.seek(time), replayTime: time }, false, 'replay');
+        // Toutes les trames franchies depuis le tick précédent, pour ne perdre aucun événement
+        audioEvents.emit(replay.eventsSince(fromIndex));
+
+        if (time >= replay.duration) {
+          stopReplayLoop();
+          set({ isReplayPlaying: false }, false, 'replay-end');
+          return;
         }
-        if (!analysisState.timbreAnalyzer) {
-          analysisState.timbreAnalyzer = new TimbreAnalyzer(sampleRate);
+        replayFrameId = requestAnimationFrame(replayTick);
+      };
+
+      const stopReplayLoop = () => {
+        if (replayFrameId !== null) {
+          cancelAnimationFrame(replayFrameId);
+          replayFrameId = null;
         }
-        if (analysisState.melFilters.length === 0) {
-          analysisState.melFilters = createMelFilterbank(2048, sampleRate, 40);
+      };
+
+      const applyInputGain = (label: string | null) => {
+        const { audioContext, nodes, inputGains } = get();
+        if (!audioContext || !nodes.micInputGain) return;
+        const gain = inputGains[label ?? DEFAULT_DEVICE_KEY] ?? 1;
+        nodes.micInputGain.gain.setTargetAtTime(gain, audioContext.currentTime, 0.02);
+      };
+
+      // Seuil du noise gate d'après la calibration du périphérique (seuil par défaut sans calibration).
+      // Le bruit de fond a été mesuré après le gain d'entrée : il suit les changements de gain faits depuis.
+      const applyMicCalibration = (label: string | null) => {
+        const key = label ?? DEFAULT_DEVICE_KEY;
+        const calibration = get().micCalibrations[key];
+        if (!calibration) {
+          micConditioner?.setNoiseFloor(null);
+          return;
         }
+        const gain = get().inputGains[key] ?? 1;
+        const gainOffset = calibration.inputGain ? 20 * Math.log10(Math.max(gain, 1e-6) / calibration.inputGain) : 0;
+        micConditioner?.setNoiseFloor(calibration.noiseFloor + gainOffset);
+      };
 
-        // Calcul du volume
-        let sum = 0;
-        for (let i = 0; i < waveform.length; i++) {
-          const normalized = (waveform[i] - 128) / 128;
-          sum += normalized * normalized;
+      // Ouvre le périphérique choisi (ou celui par défaut s'il est absent) et le branche sur le gain d'entrée
+      const openMicrophone = async (audioContext: AudioContext, micInputGain: GainNode) => {
+        const { selectedInputLabel } = get();
+        const device = selectedInputLabel
+          ? findDeviceByLabel(await listInputDevices(), selectedInputLabel)
+          : undefined;
+        if (selectedInputLabel && !device) {
+          console.warn(`⚠️ Entrée "${selectedInputLabel}" introuvable, repli sur l'entrée par défaut`);
         }
-        const volume = Math.sqrt(sum / waveform.length);
-        analysisState.smoothedVolume = analysisState.smoothedVolume * 0.8 + volume * 0.2;
-
-        // Calcul des bandes de fréquences
-        const nyquist = sampleRate / 2;
-        const bassEnd = Math.floor((250 / nyquist) * bufferLength);
-        const midEnd = Math.floor((4000 / nyquist) * bufferLength);
-
-        let bassSum = 0, midSum = 0, trebleSum = 0;
-        let bassCount = 0, midCount = 0, trebleCount = 0;
-
-        for (let i = 1; i < bufferLength; i++) {
-          const freq = (i / bufferLength) * nyquist;
-          const amplitude = frequencies[i] / 255;
-          const weighted = amplitude * A_WEIGHTING(freq);
-
-          if (i <= bassEnd) {
-            bassSum += weighted;
-            bassCount++;
-          } else if (i <= midEnd) {
-            midSum += weighted;
-            midCount++;
-          } else {
-            trebleSum += weighted;
-            trebleCount++;
+
+        const constraints = (deviceId?: string): MediaStreamConstraints => ({
+          audio: {
+            deviceId: deviceId ? { exact: deviceId } : undefined,
+            echoCancellation: false,
+            noiseSuppression: false,
+            autoGainControl: false
           }
+        });
+
+        // Périphérique retrouvé mais impossible à ouvrir (identifiant périmé...) : repli sur l'entrée par défaut
+        let stream: MediaStream;
+        let fallback = false;
+        try {
+          stream = await navigator.mediaDevices.getUserMedia(constraints(device?.deviceId));
+        } catch (err) {
+          if (!device || (err as Error).name !== 'OverconstrainedError') throw err;
+          console.warn(`⚠️ Entrée "${device.label}" impossible à ouvrir, repli sur l'entrée par défaut:`, err);
+          stream = await navigator.mediaDevices.getUserMedia(constraints());
+          fallback = true;
         }
 
-        const bands: FrequencyBands = {
-          bass: bassCount > 0 ? bassSum / bassCount : 0,
-          mid: midCount > 0 ? midSum / midCount : 0,
-          treble: trebleCount > 0 ? trebleSum / trebleCount : 0,
-        };
-
-        const energy = (bands.bass + bands.mid + bands.treble) / 3;
-
-        // Mise à jour des enveloppes de bandes
-        const envelope = analysisState.bandEnvelope;
-        Object.keys(bands).forEach(key => {
-          const band = key as keyof FrequencyBands;
-          const value = bands[band];
-          const env = envelope[band];
-          env.min = Math.min(env.min * (1 - ENVELOPE_CONFIG.adaptiveRate) + value * ENVELOPE_CONFIG.adaptiveRate, value);
-          env.max = Math.max(env.max * (1 - ENVELOPE_CONFIG.adaptiveRate) + value * ENVELOPE_CONFIG.adaptiveRate, value);
+        // Débranchement physique : la piste se termine, on ne reste pas à analyser du silence
+        const track = stream.getAudioTracks()[0];
+        track?.addEventListener('ended', () => {
+          if (get().nodes.mediaStream === stream) handleInputLost();
         });
 
-        // Calcul des bandes dynamiques
-        const dynamicBands: FrequencyBands = {
-          bass: envelope.bass.max > envelope.bass.min ?
-            (bands.bass - envelope.bass.min) / (envelope.bass.max - envelope.bass.min) : 0,
-          mid: envelope.mid.max > envelope.mid.min ?
-            (bands.mid - envelope.mid.min) / (envelope.mid.max - envelope.mid.min) : 0,
-          treble: envelope.treble.max > envelope.treble.min ?
-            (bands.treble - envelope.treble.min) / (envelope.treble.max - envelope.treble.min) : 0,
-        };
-
-        // Calcul des transitoires (version simplifiée)
-        const transients: Transients = {
-          bass: Math.random() > 0.9, // Placeholder
-          mid: Math.random() > 0.9,
-          treble: Math.random() > 0.9,
-          overall: Math.random() > 0.95,
-        };
-
-        // Features basiques (à améliorer)
-        const spectralFeatures: SpectralFeatures = {
-          centroid: 0.5,
-          spread: 0.3,
-          flux: 0.2,
-          rolloff: 0.7
-        };
-
-        const melodicFeatures: MelodicFeatures = {
-          dominantFrequency: 440,
-          dominantNote: 'A4',
-          noteConfidence: 0.5,
-          harmonicContent: 0.3,
-          pitchClass: new Array(12).fill(0)
-        };
-
-        const rhythmicFeatures: RhythmicFeatures = {
-          bpm: 120,
-          bpmConfidence: 50,
-          beatPhase: 0,
-          subdivision: 1,
-          groove: 50
-        };
-
-        const timbreProfile: TimbreProfile = {
-          brightness: 0.5,
-          warmth: 0.5,
-          richness: 0.5,
-          clarity: 0.5,
-          attack: 0.5,
-          dominantChroma: 0,
-          harmonicComplexity: 0.5
-        };
-
-        const musicalContext: MusicalContext = {
-          notePresent: false,
-          noteStability: 0.5,
-          key: 'C',
-          mode: 'unknown',
-          tension: 0.3
-        };
-
-        // Mise à jour du store avec les nouvelles données
-        const newAudioData: AudioData = {
-          frequencies,
-          waveform,
-          volume,
-          bands,
-          dynamicBands,
-          transients,
-          energy,
-          dropIntensity: analysisState.dropIntensity,
-          spectralFeatures,
-          melodicFeatures,
-          rhythmicFeatures,
-          timbreProfile,
-          musicalContext,
-          bass: dynamicBands.bass,
-          mids: dynamicBands.mid,
-          treble: dynamicBands.treble,
-          beat: transients.overall,
-          smoothedVolume: analysisState.smoothedVolume,
-        };
-
-        set({ audioData: newAudioData }, false, 'analyze');
-        analysisState.prevBands = { ...bands };
+        const micSource = audioContext.createMediaStreamSource(stream);
+        micSource.connect(micInputGain);
 
-        animationFrameId = requestAnimationFrame(analyze);
+        const activeInputLabel = track?.label || null;
+        set({ activeInputLabel }, false, 'openMicrophone');
+        applyInputGain(activeInputLabel);
+        applyMicCalibration(activeInputLabel);
+
+        // Les labels ne sont disponibles qu'après l'autorisation
+        await get().refreshInputDevices();
+        console.log(`🎤 Entrée ouverte: ${activeInputLabel ?? 'par défaut'}`);
+
+        return { stream, micSource, fallback };
+      };
+
+      const FALLBACK_INPUT_ERROR = "Entrée choisie indisponible : entrée par défaut utilisée.";
+
+      // Refus d'autorisation distingué des autres échecs d'ouverture
+      const microphoneErrorMessage = (err: unknown) =>
+        (err as Error).name === 'NotAllowedError' || (err as Error).name === 'SecurityError'
+          ? "Permission du microphone refusée."
+          : "Impossible d'ouvrir l'entrée audio.";
+
+      // Remplace le flux micro actif sans repasser par switchSource (pas de reset d'analyse inutile)
+      const reopenMicrophone = async () => {
+        const { audioContext, nodes } = get();
+        if (!audioContext || !nodes.micInputGain) return;
+
+        nodes.mediaStream?.getTracks().forEach(track => track.stop());
+        nodes.micSource?.disconnect();
+
+        try {
+          const { stream, micSource, fallback } = await openMicrophone(audioContext, nodes.micInputGain);
+          set({
+            nodes: { ...get().nodes, mediaStream: stream, micSource },
+            error: fallback ? FALLBACK_INPUT_ERROR : null
+          }, false, 'reopenMicrophone');
+        } catch (err) {
+          console.error("❌ Aucune entrée audio utilisable:", err);
+          set({
+            error: "Entrée audio déconnectée.",
+            activeInputLabel: null,
+            nodes: { ...get().nodes, mediaStream: null, micSource: null },
+          }, false, 'reopenMicrophone-error');
+          await get().switchSource('none');
+        }
+      };
+
+      const handleInputLost = () => {
+        if (get().sourceType !== 'microphone') return;
+        console.warn('⚠️ Entrée audio perdue, repli sur une autre entrée...');
+        reopenMicrophone();
+      };
+
+      // Branchement / débranchement : repli si l'entrée active a disparu, retour à l'entrée préférée si elle revient
+      const handleDeviceChange = async () => {
+        await get().refreshInputDevices();
+
+        const { sourceType, nodes, inputDevices, selectedInputLabel, activeInputLabel } = get();
+        if (sourceType !== 'microphone') return;
+
+        const track = nodes.mediaStream?.getAudioTracks()[0];
+        const activeDeviceId = track?.getSettings().deviceId;
+        const activePresent = !!track && track.readyState === 'live' && (
+          activeDeviceId
+            ? inputDevices.some(device => device.deviceId === activeDeviceId)
+            : inputDevices.some(device => device.label === activeInputLabel)
+        );
+
+        if (!activePresent) {
+          handleInputLost();
+          return;
+        }
+
+        const preferred = selectedInputLabel ? findDeviceByLabel(inputDevices, selectedInputLabel) : undefined;
+        if (preferred && preferred.label !== activeInputLabel) {
+          console.log(`🔌 Entrée préférée de retour: ${preferred.label}`);
+          await reopenMicrophone();
+        }
       };
 
       return {
@@ -337,63 +405,156 @@ export const useAudioStore = create<AudioStoreState>()(
         analyser: null,
         audioElement: null,
         sourceType: 'none',
-        audioData: initialAudioData,
+        audioData: createInitialAudioData(),
+        analysisBackend: null,
         error: null,
-        nodes: {
-          fileSource: null,
-          micSource: null,
-          fileGain: null,
-          micGain: null,
-          mediaStream: null,
-        },
+        bandLayout: DEFAULT_BAND_LAYOUT,
+        audioConfig: DEFAULT_AUDIO_CONFIG,
+        tempoOptions: DEFAULT_BPM_DETECTOR_OPTIONS,
+        manualBPM: null,
+        trackTimeline: null,
+        trackAnalysisProgress: null,
+        isRecording: false,
+        recordedFrameCount: 0,
+        replay: null,
+        replayTime: 0,
+        isReplayPlaying: false,
+        testSignal: DEFAULT_TEST_SIGNALS.clickTrack,
+        inputDevices: [],
+        selectedInputLabel: devicePreferences.selectedLabel,
+        activeInputLabel: null,
+        inputGains: devicePreferences.gains,
+        micCalibrations: devicePreferences.calibrations,
+        micProcessing: DEFAULT_MIC_PROCESSING_CONFIG,
+        micLevel: null,
+        isCalibrating: false,
+        nodes: { ...emptyNodes },
 
         // Action d'initialisation (à appeler une seule fois)
-        initialize: async () => {
+        initialize: () => {
           if (get().isInitialized) {
             console.log('🔧 Store déjà initialisé, ignoré.');
-            return;
+            return Promise.resolve();
           }
+          // Appels concurrents (StrictMode) : on partage la même initialisation
+          if (initPromise) return initPromise;
+
+          initPromise = (async () => {
+            try {
+              console.log('🚀 Initialisation du store audio...');
+
+              const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+              const audioContext = new AudioContextClass();
+
+              const createConfiguredAnalyser = () => {
+                const node = audioContext.createAnalyser();
+                applyAudioConfig(node, get().audioConfig);
+                return node;
+              };
+              const analyser = createConfiguredAnalyser();
+
+              const fileGain = audioContext.createGain();
+              const micGain = audioContext.createGain();
+              const micInputGain = audioContext.createGain();
+              const testSignalGain = audioContext.createGain();
+              const inputBus = audioContext.createGain();
+
+              // Initialiser les gains à 0 (coupés)
+              fileGain.gain.value = 0;
+              micGain.gain.value = 0;
+              testSignalGain.gain.value = 0;
+
+              testSignalGenerator = new TestSignalGenerator(audioContext);
+              testSignalGenerator.output.connect(testSignalGain);
+
+              // Chaînage : [Source] -> [Gain] -> InputBus -> Analyser (+ capture worker)
+              // Seuls le fichier et le signal de test partent vers les haut-parleurs : pas de boucle de feedback avec le micro.
+              fileGain.connect(inputBus);
+              micGain.connect(inputBus);
+
+              // Micro : gain manuel -> noise gate + AGC (worklet) -> micGain ; branchement direct sans AudioWorklet
+              micInputGain.connect(micGain);
+              if (MicConditionerClient.isSupported(audioContext)) {
+                try {
+                  micConditioner = await MicConditionerClient.create(audioContext, get().micProcessing);
+                  micInputGain.disconnect();
+                  micInputGain.connect(micConditioner.input);
+                  micConditioner.output.connect(micGain);
+                  micConditioner.onLevel(level => {
+                    if (get().sourceType === 'microphone') set({ micLevel: level }, false, 'micLevel');
+                  });
+                } catch (err) {
+                  console.warn('⚠️ Conditionnement micro indisponible (ni gate ni AGC):', err);
+                  micConditioner = null;
+                }
+              }
+              testSignalGain.connect(inputBus);
+              inputBus.connect(analyser);
+
+              // Analyse stéréo : un analyseur par canal (une entrée mono est dupliquée sur les deux)
+              const channelSplitter = audioContext.createChannelSplitter(2);
+              const leftAnalyser = createConfiguredAnalyser();
+              const rightAnalyser = createConfiguredAnalyser();
+              inputBus.connect(channelSplitter);
+              channelSplitter.connect(leftAnalyser, 0);
+              channelSplitter.connect(rightAnalyser, 1);
+
+              // Sur le thread principal, un analyseur dédié fournit la fenêtre float de YIN
+              const pitchAnalyser = audioContext.createAnalyser();
+              pitchAnalyser.fftSize = mainThreadPitchWindow(get().audioConfig);
+              inputBus.connect(pitchAnalyser);
+              fileGain.connect(audioContext.destination);
+              testSignalGain.connect(audioContext.destination);
+
+              let analysisBackend: AnalysisBackend = 'main-thread';
+              if (AnalysisWorkerClient.isSupported(audioContext)) {
+                try {
+                  workerClient = await AnalysisWorkerClient.create(audioContext, publishAudioData);
+                  workerClient.setBandLayout(get().bandLayout);
+                  workerClient.configure(get().audioConfig);
+                  workerClient.setTempoOptions(get().tempoOptions);
+                  workerClient.setManualBPM(get().manualBPM);
+                  inputBus.connect(workerClient.input);
+                  analysisBackend = 'worker';
+                } catch (err) {
+                  console.warn('⚠️ Worker d\'analyse indisponible, repli sur le thread principal:', err);
+                  workerClient = null;
+                }
+              }
+
+              set({
+                isInitialized: true,
+                audioContext,
+                analyser,
+                analysisBackend,
+                nodes: {
+                  ...get().nodes,
+                  fileGain, micGain, micInputGain, testSignalGain, inputBus,
+                  channelSplitter, leftAnalyser, rightAnalyser, pitchAnalyser
+                },
+                error: null,
+              }, false, 'initialize');
+
+              // Démarrer la boucle d'analyse si elle n'est pas déportée dans le worker
+              if (analysisBackend === 'main-thread') {
+                if (animationFrameId) cancelAnimationFrame(animationFrameId);
+                analyze();
+              }
+
+              navigator.mediaDevices?.addEventListener('devicechange', handleDeviceChange);
+              get().refreshInputDevices();
+
+              console.log(`✅ Store audio initialisé avec succès (analyse: ${analysisBackend})`);
+
+            } catch (err) {
+              console.error("❌ Erreur d'initialisation de l'API Web Audio:", err);
+              set({ error: "Votre navigateur ne supporte pas l'API Web Audio." }, false, 'initialize-error');
+            } finally {
+              initPromise = null;
+            }
+          })();
 
-          try {
-            console.log('🚀 Initialisation du store audio...');
-
-            const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
-            const audioContext = new AudioContextClass();
-
-            const analyser = audioContext.createAnalyser();
-            analyser.fftSize = 2048;
-            analyser.smoothingTimeConstant = 0.75;
-
-            const fileGain = audioContext.createGain();
-            const micGain = audioContext.createGain();
-
-            // Initialiser les gains à 0 (coupés)
-            fileGain.gain.value = 0;
-            micGain.gain.value = 0;
-
-            // Chaînage : [Source] -> [Gain] -> Analyser -> Destination
-            fileGain.connect(analyser);
-            micGain.connect(analyser);
-            analyser.connect(audioContext.destination);
-
-            set({
-              isInitialized: true,
-              audioContext,
-              analyser,
-              nodes: { ...get().nodes, fileGain, micGain },
-              error: null,
-            }, false, 'initialize');
-
-            // Démarrer la boucle d'analyse
-            if (animationFrameId) cancelAnimationFrame(animationFrameId);
-            analyze();
-
-            console.log('✅ Store audio initialisé avec succès');
-
-          } catch (err) {
-            console.error("❌ Erreur d'initialisation de l'API Web Audio:", err);
-            set({ error: "Votre navigateur ne supporte pas l'API Web Audio." }, false, 'initialize-error');
-          }
+          return initPromise;
         },
 
         // Action pour enregistrer l'élément <audio>
@@ -433,9 +594,29 @@ export const useAudioStore = create<AudioStoreState>()(
         switchSource: async (type) => {
           const { isInitialized, audioContext, nodes, sourceType: currentSourceType } = get();
 
-          // Éviter les changements inutiles
-          if (currentSourceType === type) {
-            console.log(`🔧 Source déjà active: ${type}, ignoré.`);
+          // Le replay ne dépend pas du graphe Web Audio : utilisable sans matériel ni autorisation autoplay
+          if (type === 'replay') {
+            if (currentSourceType === 'replay') return;
+
+            if (audioContext && nodes.fileGain && nodes.micGain && nodes.testSignalGain) {
+              nodes.fileGain.gain.setValueAtTime(0, audioContext.currentTime);
+              nodes.micGain.gain.setValueAtTime(0, audioContext.currentTime);
+              nodes.testSignalGain.gain.setValueAtTime(0, audioContext.currentTime);
+            }
+            testSignalGenerator?.stop();
+            if (nodes.mediaStream) {
+              nodes.mediaStream.getTracks().forEach(track => track.stop());
+              nodes.micSource?.disconnect();
+            }
+
+            const { replay, replayTime } = get();
+            set({
+              sourceType: 'replay',
+              audioData: replay ? replay.seek(replayTime) : createInitialAudioData(),
+              nodes: { ...nodes, mediaStream: null, micSource: null },
+              error: null
+            }, false, 'switchSource-replay');
+            console.log('✅ Source replay activée');
             return;
           }
 
@@ -445,25 +626,43 @@ export const useAudioStore = create<AudioStoreState>()(
             return;
           }
 
+          // Assurer que le contexte est actif (sans bloquer : resume() attend un geste utilisateur)
+          if (audioContext.state === 'suspended') {
+            audioContext.resume()
+              .then(() => console.log('▶️ Contexte audio réactivé'))
+              .catch(err => console.error('❌ Impossible de réactiver le contexte audio:', err));
+          }
+
+          // Éviter les changements inutiles
+          if (currentSourceType === type) {
+            console.log(`🔧 Source déjà active: ${type}, ignoré.`);
+            return;
+          }
+
           try {
             console.log(`🔄 Changement de source vers: ${type}`);
 
-            // Assurer que le contexte est actif
-            if (audioContext.state === 'suspended') {
-              await audioContext.resume();
-              console.log('▶️ Contexte audio réactivé');
+            // 0. Quitter le replay : la boucle de relecture s'arrête
+            if (currentSourceType === 'replay') {
+              stopReplayLoop();
+              set({ isReplayPlaying: false }, false, 'switchSource-leave-replay');
             }
 
-            const { fileGain, micGain, mediaStream, micSource } = nodes;
+            const { fileGain, micGain, micInputGain, testSignalGain, mediaStream, micSource } = nodes;
 
-            // 1. Couper le micro s'il est actif
+            // 1. Couper le micro s'il est actif, ainsi que le signal de test
             if (mediaStream) {
               console.log('🛑 Arrêt du flux microphone...');
               mediaStream.getTracks().forEach(track => track.stop());
               micSource?.disconnect();
             }
+            testSignalGenerator?.stop();
+            testSignalGain!.gain.setValueAtTime(0, audioContext.currentTime);
 
-            // 2. Mettre à jour les gains et l'état selon le type
+            // 2. Nouvelle source : enveloppes et historiques repartent de zéro
+            resetAnalysis();
+
+            // 3. Mettre à jour les gains et l'état selon le type
             switch (type) {
               case 'file':
                 fileGain!.gain.setValueAtTime(1, audioContext.currentTime);
@@ -479,16 +678,7 @@ export const useAudioStore = create<AudioStoreState>()(
               case 'microphone':
                 try {
                   console.log('🎤 Demande d\'accès au microphone...');
-                  const stream = await navigator.mediaDevices.getUserMedia({
-                    audio: {
-                      echoCancellation: false,
-                      noiseSuppression: false,
-                      autoGainControl: false
-                    }
-                  });
-
-                  const newMicSource = audioContext.createMediaStreamSource(stream);
-                  newMicSource.connect(micGain!);
+                  const { stream, micSource: newMicSource, fallback } = await openMicrophone(audioContext, micInputGain!);
 
                   fileGain!.gain.setValueAtTime(0, audioContext.currentTime);
                   micGain!.gain.setValueAtTime(1, audioContext.currentTime);
@@ -496,19 +686,36 @@ export const useAudioStore = create<AudioStoreState>()(
                   set({
                     sourceType: 'microphone',
                     nodes: { ...nodes, mediaStream: stream, micSource: newMicSource },
-                    error: null
+                    error: fallback ? FALLBACK_INPUT_ERROR : null
                   }, false, 'switchSource-microphone');
 
                   console.log('✅ Source microphone activée');
                 } catch (err) {
                   console.error("❌ Erreur d'accès au microphone:", err);
                   set({
-                    error: "Permission du microphone refusée.",
-                    sourceType: 'none'
+                    error: microphoneErrorMessage(err),
+                    sourceType: 'none',
+                    activeInputLabel: null,
+                    nodes: { ...nodes, mediaStream: null, micSource: null },
                   }, false, 'switchSource-microphone-error');
                 }
                 break;
 
+              case 'testSignal': {
+                const { testSignal } = get();
+                fileGain!.gain.setValueAtTime(0, audioContext.currentTime);
+                micGain!.gain.setValueAtTime(0, audioContext.currentTime);
+                testSignalGain!.gain.setValueAtTime(1, audioContext.currentTime);
+                testSignalGenerator!.start(testSignal);
+                set({
+                  sourceType: 'testSignal',
+                  nodes: { ...nodes, mediaStream: null, micSource: null },
+                  error: null
+                }, false, 'switchSource-testSignal');
+                console.log('✅ Signal de test activé:', testSignal);
+                break;
+              }
+
               case 'none':
               default:
                 fileGain!.gain.setValueAtTime(0, audioContext.currentTime);
@@ -530,6 +737,321 @@ export const useAudioStore = create<AudioStoreState>()(
           }
         },
 
+        // Pré-analyse complète du fichier : timeline consultable pendant la lecture
+        analyzeTrack: async (file) => {
+          // Un nouveau fichier annule l'analyse précédente
+          trackAnalysisController?.abort();
+          const controller = new AbortController();
+          trackAnalysisController = controller;
+          set({ trackTimeline: null, trackAnalysisProgress: 0 }, false, 'analyzeTrack-start');
+
+          try {
+            console.log('🔮 Pré-analyse du morceau...');
+            const data = await file.arrayBuffer();
+            const sampleRate = get().audioContext?.sampleRate;
+            const analysis = await analyzeTrack(
+              data,
+              (progress) => {
+                set({ trackAnalysisProgress: progress }, false, 'analyzeTrack-progress');
+              },
+              sampleRate ? { sampleRate } : {},
+              controller.signal
+            );
+            if (controller.signal.aborted) return;
+            trackAnalysisController = null;
+
+            set({
+              trackTimeline: new FeatureTimeline(analysis),
+              trackAnalysisProgress: null,
+            }, false, 'analyzeTrack-done');
+
+            console.log('✅ Pré-analyse terminée:', {
+              bpm: analysis.bpm,
+              key: `${analysis.key} ${analysis.mode}`,
+              sections: analysis.sections.map(section => section.label),
+              drops: analysis.drops.map(time => time.toFixed(1) + 's'),
+            });
+          } catch (err) {
+            if (controller.signal.aborted) return;
+            trackAnalysisController = null;
+            console.error('❌ Erreur lors de la pré-analyse du morceau:', err);
+            set({ trackAnalysisProgress: null, error: "Impossible de pré-analyser le morceau." }, false, 'analyzeTrack-error');
+          }
+        },
+
+        // Ce qui arrive dans les `horizon` prochaines secondes du fichier en lecture
+        getLookAhead: (horizon = 2) => {
+          const { trackTimeline, audioElement, sourceType } = get();
+          if (!trackTimeline || !audioElement || sourceType !== 'file') return null;
+          return trackTimeline.lookAhead(audioElement.currentTime, horizon);
+        },
+
+        // Enregistrement des trames pour l'analyse hors-ligne des seuils
+        startRecording: (options) => {
+          recorder.start(options);
+          set({ isRecording: true, recordedFrameCount: 0 }, false, 'startRecording');
+          console.log('⏺️ Enregistrement des trames démarré');
+        },
+
+        stopRecording: () => {
+          recorder.stop();
+          set({ isRecording: false, recordedFrameCount: recorder.frameCount }, false, 'stopRecording');
+          console.log(`⏹️ Enregistrement arrêté (${recorder.frameCount} trames)`);
+        },
+
+        exportRecording: (format) => {
+          if (recorder.frameCount === 0) {
+            console.warn('⚠️ Aucune trame enregistrée à exporter.');
+            return;
+          }
+          recorder.download(format);
+        },
+
+        // Chargement d'un enregistrement JSONL (fichier ou texte brut)
+        loadReplay: async (recording) => {
+          try {
+            const replay = typeof recording === 'string'
+              ? AudioDataReplay.fromJSONL(recording)
+              : await AudioDataReplay.fromBlob(recording);
+
+            stopReplayLoop();
+            set({
+              replay,
+              replayTime: 0,
+              isReplayPlaying: false,
+              error: null,
+              ...(get().sourceType === 'replay' ? { audioData: replay.seek(0) } : {})
+            }, false, 'loadReplay');
+
+            console.log(`🎞️ Enregistrement chargé: ${replay.frameCount} trames, ${replay.duration.toFixed(1)}s`);
+          } catch (err) {
+            console.error("❌ Impossible de charger l'enregistrement:", err);
+            set({ error: "Enregistrement invalide." }, false, 'loadReplay-error');
+          }
+        },
+
+        playReplay: () => {
+          const { replay, replayTime, sourceType, isReplayPlaying } = get();
+          if (!replay || sourceType !== 'replay' || isReplayPlaying) return;
+
+          // Relecture terminée : on repart du début
+          if (replayTime >= replay.duration) {
+            set({ replayTime: 0 }, false, 'playReplay-rewind');
+          }
+
+          replayLastTick = performance.now();
+          set({ isReplayPlaying: true }, false, 'playReplay');
+          replayFrameId = requestAnimationFrame(replayTick);
+        },
+
+        pauseReplay: () => {
+          stopReplayLoop();
+          set({ isReplayPlaying: false }, false, 'pauseReplay');
+        },
+
+        seekReplay: (time) => {
+          const { replay, sourceType } = get();
+          if (!replay) return;
+
+          const clamped = Math.max(0, Math.min(time, replay.duration));
+          const audioData = replay.seek(clamped);
+          set({
+            replayTime: clamped,
+            ...(sourceType === 'replay' ? { audioData } : {})
+          }, false, 'seekReplay');
+        },
+
+        // Pas à pas déterministe : met la lecture en pause et se cale sur la trame voisine
+        stepReplay: (frames) => {
+          const { replay, replayTime, sourceType } = get();
+          if (!replay) return;
+
+          stopReplayLoop();
+          replay.seek(replayTime);
+          const audioData = replay.step(frames);
+          set({
+            replayTime: replay.position,
+            isReplayPlaying: false,
+            ...(sourceType === 'replay' ? { audioData } : {})
+          }, false, 'stepReplay');
+        },
+
+        // Choix du signal de test ; relancé immédiatement s'il est déjà la source active
+        setTestSignal: (signal) => {
+          set({ testSignal: signal }, false, 'setTestSignal');
+
+          if (get().sourceType === 'testSignal' && testSignalGenerator) {
+            // Nouveau signal : les historiques (BPM, tonalité) ne doivent pas mélanger les deux
+            resetAnalysis();
+            testSignalGenerator.start(signal);
+            console.log('🧪 Signal de test changé:', signal);
+          }
+        },
+
+        refreshInputDevices: async () => {
+          try {
+            set({ inputDevices: await listInputDevices() }, false, 'refreshInputDevices');
+          } catch (err) {
+            console.warn('⚠️ Impossible de lister les entrées audio:', err);
+          }
+        },
+
+        // Choix persistant de l'entrée ; bascule immédiate si le micro est actif
+        selectInputDevice: async (requested) => {
+          // Avant l'autorisation micro, les labels sont synthétiques ("Entrée 1") : ni persistés, ni utilisables
+          const device = get().inputDevices.find(candidate => candidate.label === requested);
+          if (device && !device.labelled) {
+            console.warn(`⚠️ "${requested}" n'est pas un vrai nom d'entrée : autorisez le micro puis choisissez à nouveau`);
+          }
+          const label = device && !device.labelled ? null : requested;
+          devicePreferences.selectedLabel = label;
+          saveInputDevicePreferences(devicePreferences);
+          set({ selectedInputLabel: label }, false, 'selectInputDevice');
+
+          if (get().sourceType === 'microphone') {
+            await reopenMicrophone();
+          }
+        },
+
+        // Gain d'entrée (linéaire) du périphérique actif, mémorisé pour ce périphérique
+        setInputGain: (gain) => {
+          const key = get().activeInputLabel ?? get().selectedInputLabel ?? DEFAULT_DEVICE_KEY;
+          devicePreferences.gains = { ...devicePreferences.gains, [key]: Math.max(0, gain) };
+          saveInputDevicePreferences(devicePreferences);
+          set({ inputGains: devicePreferences.gains }, false, 'setInputGain');
+          applyInputGain(key);
+          applyMicCalibration(key);
+        },
+
+        // Mesure le bruit de fond du micro actif (la salle doit rester silencieuse), mémorisé pour ce périphérique
+        calibrateMicNoiseFloor: async (duration = 3) => {
+          if (get().sourceType !== 'microphone' || !micConditioner) {
+            console.error('❌ Calibration impossible: micro inactif ou conditionnement indisponible');
+            return;
+          }
+          if (get().isCalibrating) return;
+
+          const key = get().activeInputLabel ?? get().selectedInputLabel ?? DEFAULT_DEVICE_KEY;
+          set({ isCalibrating: true }, false, 'calibrateMicNoiseFloor-start');
+          console.log(`🎚️ Calibration du bruit de fond (${duration} s) : silence dans la salle...`);
+
+          try {
+            const noiseFloor = await micConditioner.calibrate(duration);
+            devicePreferences.calibrations = {
+              ...devicePreferences.calibrations,
+              [key]: { noiseFloor, inputGain: get().inputGains[key] ?? 1, calibratedAt: Date.now() },
+            };
+            saveInputDevicePreferences(devicePreferences);
+            set({ micCalibrations: devicePreferences.calibrations, isCalibrating: false }, false, 'calibrateMicNoiseFloor');
+            applyMicCalibration(key);
+            console.log(`✅ Bruit de fond de "${key}": ${noiseFloor.toFixed(1)} dBFS`);
+          } catch (err) {
+            console.error('❌ Échec de la calibration:', err);
+            set({ isCalibrating: false, error: 'Calibration du micro impossible.' }, false, 'calibrateMicNoiseFloor-error');
+          }
+        },
+
+        // Réglages du noise gate et de l'AGC (bornés), appliqués à chaud
+        setMicProcessing: (partial) => {
+          const config = { ...get().micProcessing, ...partial };
+          config.gateMargin = Math.max(0, Math.min(40, config.gateMargin));
+          config.agcTarget = Math.max(-60, Math.min(-3, config.agcTarget));
+          config.agcMaxGain = Math.max(0, Math.min(40, config.agcMaxGain));
+
+          micConditioner?.configure(config);
+          set({ micProcessing: config }, false, 'setMicProcessing');
+        },
+
+        // Nouveau découpage multi-bandes, appliqué au moteur local comme au worker
+        setBandLayout: (layout) => {
+          engine.setBandLayout(layout);
+          workerClient?.setBandLayout(layout);
+          set({ bandLayout: layout }, false, 'setBandLayout');
+          console.log(`🎚️ Découpage ${layout.name}: ${layout.bands.map(band => band.name).join(' / ')}`);
+        },
+
+        // Réglages des analyseurs à chaud ; l'engine et les scènes suivent le nouveau nombre de bins
+        setAudioConfig: (partial) => {
+          const config = { ...get().audioConfig, ...partial };
+
+          if (!Number.isInteger(Math.log2(config.fftSize)) || config.fftSize < 32 || config.fftSize > 32768) {
+            console.error(`❌ fftSize invalide: ${config.fftSize} (puissance de 2 entre 32 et 32768)`);
+            return;
+          }
+          if (!Number.isInteger(Math.log2(config.sampleBufferSize)) || config.sampleBufferSize < 1024 || config.sampleBufferSize > 32768) {
+            console.error(`❌ sampleBufferSize invalide: ${config.sampleBufferSize} (puissance de 2 entre 1024 et 32768)`);
+            return;
+          }
+          if (config.minDecibels >= config.maxDecibels) {
+            console.error('❌ minDecibels doit être inférieur à maxDecibels');
+            return;
+          }
+          config.smoothingTimeConstant = Math.max(0, Math.min(1, config.smoothingTimeConstant));
+
+          const { analyser, nodes } = get();
+          [analyser, nodes.leftAnalyser, nodes.rightAnalyser].forEach(node => {
+            if (node) applyAudioConfig(node, config);
+          });
+          if (nodes.pitchAnalyser) nodes.pitchAnalyser.fftSize = mainThreadPitchWindow(config);
+          workerClient?.configure(config);
+
+          set({ audioConfig: config }, false, 'setAudioConfig');
+          console.log('🎛️ Analyseur reconfiguré:', config);
+        },
+
+        // Plage de tempo / prior : tranche les erreurs d'octave (DnB à 174 plutôt que 87...)
+        setTempoOptions: (partial) => {
+          const options = { ...get().tempoOptions, ...partial };
+
+          if (options.minBPM < 30 || options.maxBPM > 300 || options.minBPM * 1.5 > options.maxBPM) {
+            console.error(`❌ Plage de tempo invalide: ${options.minBPM}-${options.maxBPM} BPM (30-300, au moins x1.5 d'écart)`);
+            return;
+          }
+          if (options.preferredBPM <= 0 || options.priorWidth <= 0) {
+            console.error('❌ preferredBPM et priorWidth doivent être positifs');
+            return;
+          }
+
+          engine.setTempoOptions(options);
+          workerClient?.setTempoOptions(options);
+          set({ tempoOptions: options }, false, 'setTempoOptions');
+          console.log(`🥁 Tempo: ${options.minBPM}-${options.maxBPM} BPM, préférence ${options.preferredBPM}`);
+        },
+
+        // Chaque tap recale la phase ; à partir de deux taps, le tempo tapé est verrouillé
+        tapTempo: () => {
+          const bpm = tapTempo.tap();
+          engine.alignBeat();
+          workerClient?.alignBeat();
+          if (bpm !== null) {
+            get().setManualBPM(bpm);
+          }
+        },
+
+        setManualBPM: (bpm) => {
+          if (bpm !== null && (bpm < 30 || bpm > 300)) {
+            console.error(`❌ Tempo manuel invalide: ${bpm} BPM (30-300)`);
+            return;
+          }
+          engine.setManualBPM(bpm);
+          workerClient?.setManualBPM(bpm);
+          if (bpm === null) tapTempo.reset();
+          set({ manualBPM: bpm }, false, 'setManualBPM');
+          console.log(bpm === null ? '🥁 Tempo rendu à la détection automatique' : `🔒 Tempo verrouillé à ${bpm} BPM`);
+        },
+
+        // Décale la grille des temps (en temps : ±1/16 pour un nudge fin)
+        nudgeBeat: (beats) => {
+          engine.nudgeBeat(beats);
+          workerClient?.nudgeBeat(beats);
+        },
+
+        resyncOnNextKick: () => {
+          engine.resyncOnNextKick();
+          workerClient?.resyncOnNextKick();
+          console.log('🥁 Recalage sur le prochain kick');
+        },
+
         // Action de nettoyage
         cleanup: () => {
           console.log('🧹 Nettoyage du store audio...');
@@ -539,7 +1061,16 @@ export const useAudioStore = create<AudioStoreState>()(
             animationFrameId = null;
           }
 
+          workerClient?.dispose();
+          workerClient = null;
+          micConditioner?.dispose();
+          micConditioner = null;
+          stopReplayLoop();
+          testSignalGenerator?.dispose();
+          testSignalGenerator = null;
+
           const { audioContext, nodes } = get();
+          navigator.mediaDevices?.removeEventListener('devicechange', handleDeviceChange);
 
           if (nodes.mediaStream) {
             nodes.mediaStream.getTracks().forEach(track => track.stop());
@@ -550,30 +1081,10 @@ export const useAudioStore = create<AudioStoreState>()(
           }
 
           // Réinitialiser l'état d'analyse
-          analysisState = {
-            prevBands: { bass: 0, mid: 0, treble: 0 },
-            prevFrequencies: new Float32Array(512),
-            transientState: {
-              bass: { value: 0, history: new Array(10).fill(0) },
-              mid: { value: 0, history: new Array(10).fill(0) },
-              treble: { value: 0, history: new Array(10).fill(0) },
-              overall: { value: 0, history: new Array(10).fill(0) },
-            },
-            bandEnvelope: {
-              bass: { min: 0.1, max: 0.2 },
-              mid: { min: 0.1, max: 0.2 },
-              treble: { min: 0.1, max: 0.2 },
-            },
-            energyEnvelope: { min: 0.1, max: 0.2 },
-            prevNormalizedEnergy: 0,
-            dropIntensity: 0,
-            lastDropTime: 0,
-            smoothedVolume: 0,
-            yinDetector: null,
-            bpmDetector: null,
-            timbreAnalyzer: null,
-            melFilters: [],
-          };
+          engine.reset();
+          trackAnalysisController?.abort();
+          trackAnalysisController = null;
+          recorder.stop();
 
           set({
             isInitialized: false,
@@ -581,15 +1092,17 @@ export const useAudioStore = create<AudioStoreState>()(
             analyser: null,
             audioElement: null,
             sourceType: 'none',
-            audioData: initialAudioData,
+            audioData: createInitialAudioData(512, get().bandLayout),
+            analysisBackend: null,
             error: null,
-            nodes: {
-              fileSource: null,
-              micSource: null,
-              fileGain: null,
-              micGain: null,
-              mediaStream: null,
-            }
+            trackTimeline: null,
+            trackAnalysisProgress: null,
+            isRecording: false,
+            isReplayPlaying: false,
+            activeInputLabel: null,
+            micLevel: null,
+            isCalibrating: false,
+            nodes: { ...emptyNodes }
           }, false, 'cleanup');
 
           console.log('✅ Store audio nettoyé');
@@ -601,3 +1114,20 @@ export const useAudioStore = create<AudioStoreState>()(
     }
   )
 );
+
+// Lecture des features en direct, sans prop-drilling, depuis n'importe quel composant.
+// Dans une boucle useFrame, préférer useAudioStore.getState().audioData (pas de re-render).
+export const useAudioData = (): AudioData => useAudioStore(state => state.audioData);
+
+export function useAudioFeature<T>(selector: (audioData: AudioData) => T): T {
+  return useAudioStore(state => selector(state.audioData));
+}
+
+// Abonnement aux événements audio (beat, onset, drop...) pour la durée de vie du composant.
+// Le handler peut changer à chaque rendu sans réabonnement. event.time se compare à audioData.time.
+export function useAudioEvent<K extends AudioEventType>(type: K, handler: AudioEventHandler<K>): void {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => audioEvents.on(type, event => handlerRef.current(event)), [type]);
+}
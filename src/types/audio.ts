@@ -0,0 +1,161 @@
+import type { TimbreProfile, MusicalContext } from '../utils/timbreAnalyzer';
+import type { TempoCandidate } from '../utils/BPMDetector';
+import type { AudioEvent } from '../utils/audioEvents';
+
+// --- Type Definitions ---
+// Types des données d'analyse publiées par l'audioStore et les hooks d'analyse (analyse : AudioAnalysisEngine)
+export interface FrequencyBands {
+  bass: number; // 20-250 Hz
+  mid: number; // 250-4000 Hz
+  treble: number; // 4000-20000 Hz
+}
+
+export interface Transients {
+  bass: boolean;
+  mid: boolean;
+  treble: boolean;
+  overall: boolean;
+}
+
+export interface SpectralFeatures {
+  centroid: number; // Brightness indicator (0-1)
+  spread: number; // Spectral width (0-1)
+  flux: number; // Spectral change rate (0-1)
+  rolloff: number; // Frequency below which 85% of energy is contained (0-1)
+  flatness: number; // 0 (pure tone) - 1 (white noise), geometric / arithmetic mean of the power spectrum over the bins above minDecibels, scaled by their share of all bins; fades towards 0 near silence (sparse or very quiet spectra read as tonal, not noise)
+  crest: number; // 0 (flat) - 1 (single peak), max / mean power in dB, divided by its maximum 10·log10(bins)
+  skewness: number; // -1 to 1, tanh(skewness / 5) of the spectral distribution (> 0: energy leans to the lows)
+  kurtosis: number; // 0-1, log10(kurtosis) / 2 clamped (0: flat, 0.5: kurtosis 10, 1: kurtosis >= 100)
+  slope: number; // -1 to 1, regression slope of the magnitude (dB scale 0-1) over frequency (0-1); < 0 when the highs fall off
+  zcr: number; // 0-1, zero crossings per sample of the waveform (1 = crossing on every sample)
+  hfc: number; // 0-1, high-frequency content: sum of bin index × power, normalized by its maximum
+}
+
+export interface MFCCFeatures {
+  coefficients: number[]; // 13 MFCCs (c0-c12), orthonormal DCT-II of the log mel power in dB; c0 follows overall level
+  deltas: number[]; // Slope of each coefficient over the last frames, in units per second
+}
+
+export interface MelodicFeatures {
+  dominantFrequency: number; // Hz
+  dominantNote: string; // Musical note (e.g., "A4", "C#5")
+  noteConfidence: number; // 0-1
+  harmonicContent: number; // 0-1, measure of harmonic richness
+  pitchClass: number[]; // 12-element chroma vector
+  activeNotes: ActiveNote[]; // Every sounding note (polyphonic estimate), by decreasing salience
+}
+
+export interface ActiveNote {
+  note: string; // e.g. "E4"
+  midi: number;
+  frequency: number; // Hz, equal-tempered frequency of the note
+  salience: number; // 0-1, relative to the strongest note of the frame
+}
+
+export interface RhythmicFeatures {
+  bpm: number;
+  bpmConfidence: number; // 0-100
+  beatPhase: number; // 0-1, position within current beat
+  subdivision: number; // 1, 2, 4, 8 etc - detected rhythmic subdivision
+  groove: number; // 0-100, measure of rhythmic stability
+  beat: boolean; // True on the frame where a tracked beat falls
+  downbeat: boolean; // True on the frame of the first beat of a bar
+  beatInBar: number; // 0-3, 0 = downbeat
+  nextBeatTime: number; // Seconds (analysis clock), predicted time of the next beat, 0 without tempo
+  tempoCandidates: TempoCandidate[]; // Best tempo hypotheses, most likely first
+  bpmLocked: boolean; // True when bpm comes from a manual lock or tap tempo instead of detection
+}
+
+export type DrumLabel = 'kick' | 'snare' | 'hihat' | 'other'; // snare covers claps
+
+export interface DrumHit {
+  label: DrumLabel;
+  strength: number; // 0-1
+  time: number; // Seconds (analysis clock)
+}
+
+export interface PercussionFeatures {
+  hits: DrumHit[]; // Percussive onsets labelled on this frame
+  kick: boolean;
+  snare: boolean;
+  hihat: boolean;
+  lastHitTime: Record<DrumLabel, number>; // Seconds (analysis clock), 0 before the first hit
+}
+
+export type SectionLabel = 'intro' | 'buildup' | 'drop' | 'breakdown' | 'outro'; // outro: track pre-analysis only (needs the end of the track)
+
+export interface StructureFeatures {
+  section: SectionLabel;
+  confidence: number; // 0-1
+  sectionChanged: boolean; // True on the frame where the section changes
+  previousSection: SectionLabel | null;
+  sectionStartTime: number; // Seconds (analysis clock)
+  sectionDuration: number; // Seconds
+  novelty: number; // 0-1, how much energy, bass and brightness differ from the preceding seconds
+}
+
+export interface LoudnessFeatures {
+  momentary: number; // LUFS, K-weighted over 400 ms (-70 = silence)
+  shortTerm: number; // LUFS, K-weighted over 3 s
+  peak: number; // dBFS, sample peak over the last 400 ms
+  crestFactor: number; // dB, peak-to-RMS ratio over the last 400 ms
+  normalizationGain: number; // Linear gain bringing the short-term loudness to -14 LUFS (0.25-4)
+}
+
+export interface BandFeatures {
+  from: number; // Hz, début de la bande
+  to: number; // Hz, fin de la bande
+  value: number; // 0-1, magnitude pondérée A (même échelle que bands)
+  dynamic: number; // 0-1, normalisée par l'enveloppe adaptative propre à la bande
+  transient: boolean; // Détecteur de transitoires propre à la bande
+}
+
+export interface MultiBandFeatures {
+  layout: string; // Nom du découpage (preset ou personnalisé)
+  names: string[]; // Bandes, du grave à l'aigu
+  bands: Record<string, BandFeatures>;
+}
+
+export interface StereoFeatures {
+  left: FrequencyBands; // Bandes du canal gauche (même échelle que bands)
+  right: FrequencyBands; // Bandes du canal droit
+  pan: FrequencyBands; // Position spectrale par bande : -1 (gauche) à 1 (droite)
+  width: number; // 0 (mono) - 1 (large ou hors phase), rapport side/mid
+  correlation: number; // -1 (opposition de phase) à 1 (mono)
+}
+
+export interface AudioData {
+  frequencies: Uint8Array;
+  waveform: Uint8Array;
+  sampleRate: number; // Hz, sample rate of the analysed signal (AudioContext.sampleRate)
+  fftSize: number; // FFT size behind frequencies (frequencies.length * 2); bin i is centred on i * sampleRate / fftSize Hz
+  time: number; // Seconds (analysis clock), timestamp of this frame; nextBeatTime, drum hits and events share this clock
+  volume: number;
+  bands: FrequencyBands;
+  dynamicBands: FrequencyBands;
+  transients: Transients;
+  percussion: PercussionFeatures;
+  energy: number;
+  dropIntensity: number;
+  buildupProgress: number; // 0-1, how far into a build-up/riser the track is
+  timeToDrop: number; // Seconds, estimated time before the drop; -1 outside a build-up
+  spectralFeatures: SpectralFeatures;
+  mfcc: MFCCFeatures;
+  melodicFeatures: MelodicFeatures;
+  rhythmicFeatures: RhythmicFeatures;
+  timbreProfile: TimbreProfile;
+  musicalContext: MusicalContext;
+  stereo: StereoFeatures;
+  multiBand: MultiBandFeatures;
+  structure: StructureFeatures;
+  loudness: LoudnessFeatures;
+  events: AudioEvent[]; // Events detected on this frame (beat, onsets, drop, note/key/section changes)
+  bass: number;
+  mids: number;
+  treble: number;
+  beat: boolean;
+  smoothedVolume: number;
+}
+
+// --- Audio Source Types ---
+export type AudioSourceType = 'file' | 'microphone' | 'testSignal' | 'replay' | 'none';
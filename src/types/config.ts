@@ -1,6 +1,7 @@
 export type ReactivityCurve = "linear" | "easeOutQuad" | "exponential";
-export type AudioLink = "volume" | "bass" | "mids" | "treble" | "none";
-export type ColorMode = "static" | "gradient" | "audio-reactive" | "frequency" | "rainbow" | "single";
+// "band:<nom>" cible une bande nommée du découpage multi-bandes (ex: "band:sub", "band:presence")
+export type AudioLink = "volume" | "bass" | "mids" | "treble" | "none" | `band:${string}`;
+export type ColorMode = "static" | "gradient" | "audio-reactive" | "frequency" | "rainbow" | "single" | "chord";
 export type CameraMode = "orbit" | "follow" | "static";
 export type ShapeType = "cube" | "sphere" | "icosahedron" | "custom";
 export type GridLayout = "plane" | "cylinder" | "spiral" | "helix";
@@ -12,7 +13,8 @@ export type VisualizationMode = "bars2d" | "sphere2d" | "sphere3d" | "tunnelsdf"
 export interface GlobalSettings {
   name: string;
   bpmSync: boolean;
-  volumeMultiplier: number;
+  volumeMultiplier: number; // Manual trim, applied on top of the auto loudness gain
+  autoLoudness: boolean; // Normalize scene levels to -14 LUFS short-term
   fftSmoothing: number; // 0 → 1
   reactivityCurve: ReactivityCurve;
   cameraFOV: number;
@@ -26,6 +28,7 @@ export const DEFAULT_GLOBAL_SETTINGS: GlobalSettings = {
   name: "Default Scene",
   bpmSync: false,
   volumeMultiplier: 1.0,
+  autoLoudness: true,
   fftSmoothing: 0.8,
   reactivityCurve: "easeOutQuad",
   cameraFOV: 60,
@@ -50,11 +53,37 @@ export interface AudioData {
   pitch?: number;
 }
 
-export type AudioSourceType = "file" | "microphone" | "none";
+export type AudioSourceType = "file" | "microphone" | "testSignal" | "replay" | "none";
 
 export interface AudioConfig {
-  fftSize: number;
+  fftSize: number; // Puissance de 2, 32 → 32768
   smoothingTimeConstant: number;
   minDecibels: number;
   maxDecibels: number;
+  sampleBufferSize: number; // Fenêtre temporelle float pour YIN (puissance de 2, ≥ 1024 ; plafonnée à 2048 sans worker)
 }
+
+export const DEFAULT_AUDIO_CONFIG: AudioConfig = {
+  fftSize: 2048,
+  smoothingTimeConstant: 0.75,
+  minDecibels: -90,
+  maxDecibels: -10,
+  sampleBufferSize: 4096
+};
+
+// Traitement de l'entrée micro avant l'analyse (noise gate + contrôle automatique de gain)
+export interface MicProcessingConfig {
+  gateEnabled: boolean;
+  gateMargin: number; // dB au-dessus du bruit de fond calibré où le gate s'ouvre
+  agcEnabled: boolean;
+  agcTarget: number; // dBFS RMS visé
+  agcMaxGain: number; // dB, gain maximal (évite de remonter le bruit de la salle)
+}
+
+export const DEFAULT_MIC_PROCESSING_CONFIG: MicProcessingConfig = {
+  gateEnabled: true,
+  gateMargin: 6,
+  agcEnabled: true,
+  agcTarget: -20,
+  agcMaxGain: 24
+};
@@ -0,0 +1,1124 @@
+// Audio Analysis Engine for AuraSync
+// Framework-agnostic version of the analysis pipeline: no React, no Web Audio nodes.
+// It only consumes raw analyser frames, so it can run inside a Web Worker.
+
+import { BPMDetector, type BPMDetectorOptions } from './BPMDetector';
+import { BeatTracker } from './beatTracker';
+import { StructureAnalyzer } from './structureAnalyzer';
+import { BuildupDetector } from './buildupDetector';
+import { LoudnessMeter } from './loudnessMeter';
+import { AudioEventDetector } from './audioEvents';
+import { DrumClassifier } from './drumClassifier';
+import { YINPitchDetector } from './YINPitchDetector';
+import { MultiPitchEstimator } from './multiPitchEstimator';
+import { TimbreAnalyzer } from './timbreAnalyzer';
+import { createMelFilterbank, calculateRobustODF, calculateMedian, calculateMelPowers } from './melFilterbank';
+import { MFCCExtractor, MFCC_CONFIG } from './mfccExtractor';
+import { BAND_PRESETS, DEFAULT_BAND_LAYOUT, type BandDefinition, type BandLayout } from './bandLayout';
+import type {
+  AudioData,
+  FrequencyBands,
+  Transients,
+  SpectralFeatures,
+  MFCCFeatures,
+  MelodicFeatures,
+  RhythmicFeatures,
+  StereoFeatures,
+  MultiBandFeatures,
+  LoudnessFeatures,
+} from '../types/audio';
+
+/**
+ * Une trame d'analyse, au format d'un AnalyserNode.
+ * frequencies : équivalent de getByteFrequencyData (0-255)
+ * waveform : équivalent de getByteTimeDomainData (128 = silence)
+ */
+export interface AnalysisFrame {
+  frequencies: Uint8Array;
+  waveform: Uint8Array;
+  sampleRate: number;
+  time: number; // Secondes
+  channels?: StereoChannels; // Absent : source traitée comme mono
+  decibelRange?: number; // maxDecibels - minDecibels de l'analyseur (80 dB par défaut)
+  samples?: Float32Array; // Fenêtre float pleine précision (chronologique) pour YIN ; sinon waveform
+  skipPitch?: boolean; // Ni YIN ni multi-pitch : note dominante sur le pic spectral seul (analyse hors ligne)
+}
+
+export interface ChannelFrame {
+  frequencies: Uint8Array;
+  waveform: Uint8Array;
+}
+
+export interface StereoChannels {
+  left: ChannelFrame;
+  right: ChannelFrame;
+}
+
+// --- Configuration ---
+const ENVELOPE_CONFIG = {
+  minDecay: 0.002,
+  maxDecay: 0.001,
+  minThreshold: 0.02,
+  adaptiveRate: 0.1,
+};
+
+const DROP_CONFIG = {
+  decay: 0.95,
+  threshold: 0.5,
+  cooldown: 500,
+};
+
+const TRANSIENT_CONFIG = {
+  bass: { threshold: 0.08, multiplier: 1.8, decay: 0.85 },
+  mid: { threshold: 0.07, multiplier: 2.0, decay: 0.9 },
+  treble: { threshold: 0.06, multiplier: 2.2, decay: 0.92 },
+  overall: { threshold: 0.12, multiplier: 1.7, decay: 0.88 },
+};
+
+const SPECTRAL_SHAPE_CONFIG = {
+  flatnessMinEnergy: 0.15, // Énergie RMS (0-1) sous laquelle la platitude est atténuée (fondus, quasi-silence)
+};
+
+const STEREO_CONFIG = {
+  dbRange: 80, // Plage minDecibels-maxDecibels par défaut (-90 à -10 dB)
+  smoothing: 0.8, // Lissage temporel de pan, width et correlation
+};
+
+// Réglages de transitoires d'une bande libre : ceux de la bande classique qui contient son centre
+function transientConfigFor(band: BandDefinition): 'bass' | 'mid' | 'treble' {
+  const center = Math.sqrt(band.from * band.to);
+  if (center < 250) return 'bass';
+  if (center < 4000) return 'mid';
+  return 'treble';
+}
+
+// Cadence de l'ODF (trames analysées par seconde) : mesurée sur les horodatages des trames
+// (worker : sampleRate / taille des blocs ; repli thread principal : cadence de rAF)
+const ODF_RATE_CONFIG = {
+  initial: 43, // Trames/s avant la première mesure (blocs de 1024 échantillons à 44.1 kHz)
+  smoothing: 0.95, // Lissage de l'intervalle entre trames
+  maxGap: 0.25, // s, un écart plus long est un trou (silence, onglet en arrière-plan), pas la cadence
+};
+const ODF_HISTORY_SIZE = 256;
+const CHROMA_SMOOTHING = 0.85;
+const MEL_BANDS = 40;
+
+// Musical note frequencies (A4 = 440Hz)
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const A4_FREQ = 440;
+const A4_MIDI = 69;
+
+// Perceptual weighting curve (A-weighting approximation)
+const A_WEIGHTING = (freq: number): number => {
+  const f2 = freq * freq;
+  const f4 = f2 * f2;
+  return (12194 * 12194 * f4) /
+      ((f2 + 20.6 * 20.6) * Math.sqrt((f2 + 107.7 * 107.7) * (f2 + 737.9 * 737.9)) * (f2 + 12194 * 12194));
+};
+
+// Convert frequency to musical note
+const frequencyToNote = (freq: number): { note: string; cents: number } => {
+  if (freq <= 0) return { note: 'N/A', cents: 0 };
+
+  const midiNumber = 12 * Math.log2(freq / A4_FREQ) + A4_MIDI;
+  const roundedMidi = Math.round(midiNumber);
+  const cents = (midiNumber - roundedMidi) * 100;
+
+  const octave = Math.floor(roundedMidi / 12) - 1;
+  const noteIndex = roundedMidi % 12;
+
+  return {
+    note: `${NOTE_NAMES[noteIndex]}${octave}`,
+    cents: Math.round(cents)
+  };
+};
+
+// Bandes à zéro pour un découpage donné
+function createSilentMultiBand(layout: BandLayout): MultiBandFeatures {
+  return {
+    layout: layout.name,
+    names: layout.bands.map(band => band.name),
+    bands: Object.fromEntries(
+      layout.bands.map(band => [band.name, { from: band.from, to: band.to, value: 0, dynamic: 0, transient: false }])
+    ),
+  };
+}
+
+// Données initiales, partagées par tous les consommateurs de l'analyse
+export function createInitialAudioData(
+  binCount: number = 512,
+  bandLayout: BandLayout = DEFAULT_BAND_LAYOUT,
+  sampleRate: number = 44100 // Remplacé par celui de la source dès la première trame analysée
+): AudioData {
+  return {
+    frequencies: new Uint8Array(binCount),
+    waveform: new Uint8Array(binCount),
+    sampleRate,
+    fftSize: binCount * 2,
+    time: 0,
+    volume: 0,
+    bands: { bass: 0, mid: 0, treble: 0 },
+    dynamicBands: { bass: 0, mid: 0, treble: 0 },
+    transients: { bass: false, mid: false, treble: false, overall: false },
+    percussion: {
+      hits: [],
+      kick: false,
+      snare: false,
+      hihat: false,
+      lastHitTime: { kick: 0, snare: 0, hihat: 0, other: 0 }
+    },
+    energy: 0,
+    dropIntensity: 0,
+    buildupProgress: 0,
+    timeToDrop: -1,
+    spectralFeatures: {
+      centroid: 0,
+      spread: 0,
+      flux: 0,
+      rolloff: 0,
+      flatness: 0,
+      crest: 0,
+      skewness: 0,
+      kurtosis: 0,
+      slope: 0,
+      zcr: 0,
+      hfc: 0
+    },
+    mfcc: {
+      coefficients: new Array(MFCC_CONFIG.coefficients).fill(0),
+      deltas: new Array(MFCC_CONFIG.coefficients).fill(0)
+    },
+    melodicFeatures: {
+      dominantFrequency: 0,
+      dominantNote: 'N/A',
+      noteConfidence: 0,
+      harmonicContent: 0,
+      pitchClass: new Array(12).fill(0),
+      activeNotes: []
+    },
+    rhythmicFeatures: {
+      bpm: 0,
+      bpmConfidence: 0,
+      beatPhase: 0,
+      subdivision: 1,
+      groove: 0,
+      beat: false,
+      downbeat: false,
+      beatInBar: 0,
+      nextBeatTime: 0,
+      tempoCandidates: [],
+      bpmLocked: false
+    },
+    structure: {
+      section: 'intro',
+      confidence: 0,
+      sectionChanged: false,
+      previousSection: null,
+      sectionStartTime: 0,
+      sectionDuration: 0,
+      novelty: 0
+    },
+    timbreProfile: {
+      brightness: 0,
+      warmth: 0,
+      richness: 0,
+      clarity: 0,
+      attack: 0,
+      dominantChroma: 0,
+      harmonicComplexity: 0
+    },
+    musicalContext: {
+      notePresent: false,
+      noteStability: 0,
+      key: 'C',
+      mode: 'unknown',
+      tension: 0,
+      chord: 'N/A',
+      chordRoot: 'N/A',
+      chordQuality: 'none',
+      chordConfidence: 0,
+      chordChanged: false,
+      chordChangeTime: 0
+    },
+    stereo: {
+      left: { bass: 0, mid: 0, treble: 0 },
+      right: { bass: 0, mid: 0, treble: 0 },
+      pan: { bass: 0, mid: 0, treble: 0 },
+      width: 0,
+      correlation: 1
+    },
+    multiBand: createSilentMultiBand(bandLayout),
+    loudness: {
+      momentary: -70,
+      shortTerm: -70,
+      peak: -70,
+      crestFactor: 0,
+      normalizationGain: 1
+    },
+    events: [],
+    bass: 0,
+    mids: 0,
+    treble: 0,
+    beat: false,
+    smoothedVolume: 0,
+  };
+}
+
+type TransientState = { value: number; history: number[] };
+
+export class AudioAnalysisEngine {
+  private prevData: AudioData;
+
+  private prevFrequencies = new Float32Array(512);
+  private transientState = {
+    bass: { value: 0, history: new Array(10).fill(0) },
+    mid: { value: 0, history: new Array(10).fill(0) },
+    treble: { value: 0, history: new Array(10).fill(0) },
+    overall: { value: 0, history: new Array(10).fill(0) },
+  };
+  private bandEnvelope = {
+    bass: { min: 0.1, max: 0.2 },
+    mid: { min: 0.1, max: 0.2 },
+    treble: { min: 0.1, max: 0.2 },
+  };
+  private energyEnvelope = { min: 0.1, max: 0.2 };
+  private prevNormalizedEnergy = 0;
+  private dropIntensity = 0;
+  private lastDropTime = 0;
+  private smoothedVolume = 0;
+
+  private yinDetector: YINPitchDetector | null = null;
+  private yinWindowSize = 0;
+  private multiPitchEstimator = new MultiPitchEstimator();
+  private timbreAnalyzer = new TimbreAnalyzer();
+  private bpmDetector = new BPMDetector();
+  private beatTracker = new BeatTracker();
+  private manualBPM: number | null = null; // Tempo verrouillé à la main (tap, saisie)
+  private structureAnalyzer = new StructureAnalyzer();
+  private buildupDetector = new BuildupDetector();
+  private loudnessMeter = new LoudnessMeter();
+  private lastLoudnessTime: number | null = null;
+  private eventDetector = new AudioEventDetector();
+  private drumClassifier = new DrumClassifier();
+  private odfHistory: number[] = [];
+  private odfInterval = 1 / ODF_RATE_CONFIG.initial; // s entre deux trames d'ODF, lissé
+  private lastOdfTime: number | null = null;
+
+  private chromaSmoothing: number[] = new Array(12).fill(0);
+  private melFilterbank: number[][] | null = null;
+  private prevMelEnergies: Float32Array | null = null;
+  private melBinCount = 0; // Nombre de bins / sample rate du filterbank courant
+  private melSampleRate = 0;
+  private mfccExtractor = new MFCCExtractor();
+
+  // Découpage multi-bandes : une enveloppe et un détecteur de transitoires par bande
+  private bandLayout: BandLayout;
+  private multiBandState: { envelope: { min: number; max: number }; transient: TransientState }[] = [];
+
+  constructor(bandLayout: BandLayout = DEFAULT_BAND_LAYOUT) {
+    this.bandLayout = bandLayout;
+    this.prevData = createInitialAudioData(512, bandLayout);
+    this.setBandLayout(bandLayout);
+  }
+
+  // Change le découpage ; les enveloppes des nouvelles bandes repartent de zéro
+  public setBandLayout(layout: BandLayout): void {
+    if (layout.bands.length === 0) {
+      throw new Error('Un découpage doit contenir au moins une bande');
+    }
+    this.bandLayout = layout;
+    this.multiBandState = layout.bands.map(() => ({
+      envelope: { min: 0.1, max: 0.2 },
+      transient: { value: 0, history: new Array(10).fill(0) },
+    }));
+    this.prevData = { ...this.prevData, multiBand: createSilentMultiBand(layout) };
+  }
+
+  public getBandLayout(): BandLayout {
+    return this.bandLayout;
+  }
+
+  // Plage de tempo et prior du BPMDetector
+  public setTempoOptions(options: Partial<BPMDetectorOptions>): void {
+    this.bpmDetector.setOptions(options);
+  }
+
+  // null rend la main à la détection automatique
+  public setManualBPM(bpm: number | null): void {
+    this.manualBPM = bpm;
+    this.beatTracker.setLocked(bpm !== null);
+  }
+
+  public nudgeBeat(beats: number): void {
+    this.beatTracker.nudge(beats);
+  }
+
+  public alignBeat(): void {
+    this.beatTracker.alignBeat();
+  }
+
+  public resyncOnNextKick(): void {
+    this.beatTracker.resyncOnNextKick();
+  }
+
+  // Analyse complète d'une trame
+  public analyze(frame: AnalysisFrame): AudioData {
+    const { frequencies, waveform, sampleRate, time } = frame;
+    const prev = this.prevData;
+    // Mesurée aussi pendant les silences : la sonie doit redescendre
+    const loudness = this.measureLoudness(frame);
+
+    let maxFreq = 0;
+    for (let i = 0; i < frequencies.length; i++) {
+      if (frequencies[i] > maxFreq) maxFreq = frequencies[i];
+    }
+
+    if (maxFreq < 5) {
+      this.smoothedVolume *= 0.8;
+      this.multiPitchEstimator.reset();
+      this.mfccExtractor.reset();
+      const silent: Omit<AudioData, 'events'> = {
+        ...prev,
+        frequencies,
+        waveform,
+        sampleRate,
+        fftSize: frequencies.length * 2,
+        time,
+        volume: 0,
+        energy: 0,
+        bands: { bass: 0, mid: 0, treble: 0 },
+        dynamicBands: { bass: 0, mid: 0, treble: 0 },
+        transients: { bass: false, mid: false, treble: false, overall: false },
+        // Le classifieur voit aussi le silence : l'onset qui le suit est mesuré depuis un niveau nul
+        percussion: this.drumClassifier.classify(frequencies, sampleRate, frame.decibelRange ?? STEREO_CONFIG.dbRange, time),
+        dropIntensity: prev.dropIntensity * DROP_CONFIG.decay,
+        multiBand: createSilentMultiBand(this.bandLayout),
+        mfcc: {
+          coefficients: new Array(MFCC_CONFIG.coefficients).fill(0),
+          deltas: new Array(MFCC_CONFIG.coefficients).fill(0)
+        },
+        musicalContext: { ...prev.musicalContext, chordChanged: false },
+        structure: { ...prev.structure, sectionChanged: false },
+        loudness,
+        stereo: {
+          ...prev.stereo,
+          left: { bass: 0, mid: 0, treble: 0 },
+          right: { bass: 0, mid: 0, treble: 0 },
+        },
+        melodicFeatures: {
+          dominantFrequency: 0,
+          dominantNote: 'N/A',
+          noteConfidence: 0,
+          harmonicContent: 0,
+          pitchClass: new Array(12).fill(0),
+          activeNotes: []
+        },
+        rhythmicFeatures: {
+          ...prev.rhythmicFeatures,
+          bpm: this.manualBPM ?? 0,
+          bpmConfidence: 0,
+          beatPhase: 0,
+          groove: prev.rhythmicFeatures.groove * 0.95,
+          beat: false,
+          downbeat: false,
+          tempoCandidates: []
+        },
+        bass: 0,
+        mids: 0,
+        treble: 0,
+        beat: false,
+        smoothedVolume: this.smoothedVolume,
+      };
+      this.prevData = { ...silent, events: this.eventDetector.detect(silent) };
+      return this.prevData;
+    }
+
+    let rms = 0;
+    for (let i = 0; i < waveform.length; i++) {
+      const sample = (waveform[i] - 128) / 128;
+      rms += sample * sample;
+    }
+    const volume = Math.sqrt(rms / waveform.length);
+    this.smoothedVolume = this.smoothedVolume * 0.8 + volume * 0.2;
+
+    let energy = 0;
+    for (let i = 1; i < frequencies.length - 1; i++) {
+      const magnitude = frequencies[i] / 255;
+      energy += magnitude * magnitude;
+    }
+    energy = Math.sqrt(energy / (frequencies.length - 2));
+
+    const bands = this.calculateBands(frequencies, sampleRate);
+    const decibelRange = frame.decibelRange ?? STEREO_CONFIG.dbRange;
+    const spectralFeatures = this.calculateSpectralFeatures(frequencies, sampleRate, decibelRange, frame.samples ?? waveform);
+    const mfcc = this.calculateMFCC(frequencies, decibelRange, time);
+    const melodicFeatures = this.calculateMelodicFeatures(waveform, frequencies, sampleRate, decibelRange, frame.samples, frame.skipPitch);
+
+    const dynamicBands: FrequencyBands = {
+      bass: this.calculateDynamicValue(bands.bass, this.bandEnvelope.bass),
+      mid: this.calculateDynamicValue(bands.mid, this.bandEnvelope.mid),
+      treble: this.calculateDynamicValue(bands.treble, this.bandEnvelope.treble),
+    };
+
+    const normalizedEnergy = this.calculateDynamicValue(energy, this.energyEnvelope);
+    const dropIntensity = this.detectDrop(normalizedEnergy, time);
+    const transients = this.detectTransients(bands, energy);
+    const percussion = this.drumClassifier.classify(frequencies, sampleRate, decibelRange, time);
+
+    const rhythmicFeatures = this.calculateRhythmicFeatures(spectralFeatures.flux, time, bands.bass, transients.bass);
+    const { buildupProgress, timeToDrop } = this.buildupDetector.update({
+      time,
+      centroid: spectralFeatures.centroid,
+      rolloff: spectralFeatures.rolloff,
+      treble: bands.treble,
+      snare: transients.mid,
+      bpm: rhythmicFeatures.bpm,
+      dropIntensity,
+    });
+
+    const timbreProfile = this.timbreAnalyzer.analyzeTimbre(melodicFeatures, spectralFeatures);
+    const musicalContext = this.timbreAnalyzer.analyzeMusicalContext(melodicFeatures, timbreProfile, time);
+    const stereo = this.calculateStereoFeatures(frame.channels, bands, sampleRate, decibelRange);
+    const multiBand = this.calculateMultiBand(frequencies, sampleRate);
+    const structure = this.structureAnalyzer.analyze({
+      time,
+      energy,
+      bass: bands.bass,
+      centroid: spectralFeatures.centroid,
+      dropIntensity,
+      buildupProgress,
+    });
+
+    const data: Omit<AudioData, 'events'> = {
+      frequencies,
+      waveform,
+      sampleRate,
+      fftSize: frequencies.length * 2,
+      time,
+      volume,
+      energy,
+      bands,
+      dynamicBands,
+      transients,
+      percussion,
+      dropIntensity,
+      buildupProgress,
+      timeToDrop,
+      spectralFeatures,
+      mfcc,
+      melodicFeatures,
+      rhythmicFeatures,
+      timbreProfile,
+      musicalContext,
+      stereo,
+      multiBand,
+      structure,
+      loudness,
+      bass: dynamicBands.bass,
+      mids: dynamicBands.mid,
+      treble: dynamicBands.treble,
+      beat: transients.overall,
+      smoothedVolume: this.smoothedVolume,
+    };
+
+    this.prevData = { ...data, events: this.eventDetector.detect(data) };
+    return this.prevData;
+  }
+
+  // Réinitialise tout l'état interne (changement de source, nouveau morceau...)
+  public reset(): void {
+    const tempoOptions = this.bpmDetector.getOptions();
+    const manualBPM = this.manualBPM;
+    const fresh = new AudioAnalysisEngine(this.bandLayout);
+    Object.assign(this, fresh);
+    this.bpmDetector.setOptions(tempoOptions);
+    this.setManualBPM(manualBPM);
+  }
+
+  // Alimente le loudness meter avec les seuls échantillons arrivés depuis la trame précédente
+  // (les fenêtres d'analyse successives se recouvrent)
+  private measureLoudness(frame: AnalysisFrame): LoudnessFeatures {
+    const { sampleRate, time } = frame;
+    this.loudnessMeter.updateSampleRate(sampleRate);
+
+    let window = frame.samples;
+    if (!window) {
+      window = new Float32Array(frame.waveform.length);
+      for (let i = 0; i < frame.waveform.length; i++) {
+        window[i] = (frame.waveform[i] - 128) / 128;
+      }
+    }
+
+    const elapsed = this.lastLoudnessTime === null ? 0 : time - this.lastLoudnessTime;
+    this.lastLoudnessTime = time;
+    const newSamples = Math.min(window.length, Math.max(0, Math.round(elapsed * sampleRate)));
+    if (newSamples > 0) {
+      this.loudnessMeter.process(window.subarray(window.length - newSamples));
+    }
+    return this.loudnessMeter.measure();
+  }
+
+  private calculateBands(frequencies: Uint8Array, sampleRate: number): FrequencyBands {
+    const [bass, mid, treble] = this.calculateBandValues(frequencies, sampleRate, BAND_PRESETS.classic.bands);
+    return { bass, mid, treble };
+  }
+
+  // Magnitude moyenne pondérée A par bande (la première bande part du bin 1, la dernière va jusqu'à Nyquist)
+  private calculateBandValues(frequencies: Uint8Array, sampleRate: number, bands: BandDefinition[]): number[] {
+    const nyquist = sampleRate / 2;
+    const binSize = nyquist / frequencies.length;
+    const bandEnds = bands.map(band => Math.floor(band.to / binSize));
+    const sums = new Array(bands.length).fill(0);
+    const weights = new Array(bands.length).fill(0);
+
+    let band = 0;
+    for (let i = 1; i < frequencies.length; i++) {
+      const freq = i * binSize;
+      while (band < bands.length - 1 && i > bandEnds[band]) band++;
+      if (band === bands.length - 1 && freq >= nyquist - binSize) break;
+
+      const weight = A_WEIGHTING(freq);
+      sums[band] += (frequencies[i] / 255) * weight;
+      weights[band] += weight;
+    }
+
+    return sums.map((sum, index) => (weights[index] > 0 ? sum / weights[index] : 0));
+  }
+
+  private calculateMultiBand(frequencies: Uint8Array, sampleRate: number): MultiBandFeatures {
+    const { bands } = this.bandLayout;
+    const values = this.calculateBandValues(frequencies, sampleRate, bands);
+    const result: MultiBandFeatures['bands'] = {};
+
+    bands.forEach((band, index) => {
+      const state = this.multiBandState[index];
+      const value = values[index];
+      result[band.name] = {
+        from: band.from,
+        to: band.to,
+        value,
+        dynamic: this.calculateDynamicValue(value, state.envelope),
+        transient: this.detectBandTransient(state.transient, TRANSIENT_CONFIG[transientConfigFor(band)], value),
+      };
+    });
+
+    return { layout: this.bandLayout.name, names: bands.map(band => band.name), bands: result };
+  }
+
+  // Bandes par canal, pan spectral par bande, largeur et corrélation de phase
+  private calculateStereoFeatures(
+    channels: StereoChannels | undefined,
+    bands: FrequencyBands,
+    sampleRate: number,
+    decibelRange: number
+  ): StereoFeatures {
+    const prev = this.prevData.stereo;
+
+    if (!channels) {
+      return { left: bands, right: bands, pan: { bass: 0, mid: 0, treble: 0 }, width: 0, correlation: 1 };
+    }
+
+    const { left, right } = channels;
+    const leftPower = this.calculateBandPowers(left.frequencies, sampleRate, decibelRange);
+    const rightPower = this.calculateBandPowers(right.frequencies, sampleRate, decibelRange);
+
+    const panOf = (l: number, r: number) => (l + r > 1e-12 ? (r - l) / (r + l) : 0);
+    const pan: FrequencyBands = {
+      bass: panOf(leftPower.bass, rightPower.bass),
+      mid: panOf(leftPower.mid, rightPower.mid),
+      treble: panOf(leftPower.treble, rightPower.treble),
+    };
+
+    // Corrélation et énergies mid/side sur les formes d'onde
+    let sumLR = 0, sumLL = 0, sumRR = 0, midEnergy = 0, sideEnergy = 0;
+    const length = Math.min(left.waveform.length, right.waveform.length);
+    for (let i = 0; i < length; i++) {
+      const l = (left.waveform[i] - 128) / 128;
+      const r = (right.waveform[i] - 128) / 128;
+      sumLR += l * r;
+      sumLL += l * l;
+      sumRR += r * r;
+      midEnergy += (l + r) * (l + r);
+      sideEnergy += (l - r) * (l - r);
+    }
+    const norm = Math.sqrt(sumLL * sumRR);
+    const correlation = norm > 1e-9 ? sumLR / norm : 1;
+    // side == mid pour deux canaux décorrélés : width = 1 ; mono parfait : width = 0
+    const width = midEnergy > 1e-9 ? Math.min(1, Math.sqrt(sideEnergy / midEnergy)) : (sideEnergy > 1e-9 ? 1 : 0);
+
+    const smooth = (previous: number, current: number) =>
+      previous * STEREO_CONFIG.smoothing + current * (1 - STEREO_CONFIG.smoothing);
+
+    return {
+      left: this.calculateBands(left.frequencies, sampleRate),
+      right: this.calculateBands(right.frequencies, sampleRate),
+      pan: {
+        bass: smooth(prev.pan.bass, pan.bass),
+        mid: smooth(prev.pan.mid, pan.mid),
+        treble: smooth(prev.pan.treble, pan.treble),
+      },
+      width: smooth(prev.width, width),
+      correlation: smooth(prev.correlation, correlation),
+    };
+  }
+
+  // Puissance linéaire par bande (les octets de l'analyseur sont en dB) : base du pan
+  private calculateBandPowers(frequencies: Uint8Array, sampleRate: number, decibelRange: number): FrequencyBands {
+    const binSize = sampleRate / 2 / frequencies.length;
+    const bassEnd = Math.floor(250 / binSize);
+    const midEnd = Math.floor(4000 / binSize);
+    const powers = { bass: 0, mid: 0, treble: 0 };
+
+    for (let i = 1; i < frequencies.length; i++) {
+      if (frequencies[i] === 0) continue;
+      const power = Math.pow(10, ((frequencies[i] / 255 - 1) * decibelRange) / 10);
+      if (i <= bassEnd) powers.bass += power;
+      else if (i <= midEnd) powers.mid += power;
+      else powers.treble += power;
+    }
+
+    return powers;
+  }
+
+  private calculateSpectralFeatures(
+    frequencies: Uint8Array,
+    sampleRate: number,
+    decibelRange: number,
+    timeDomain: Float32Array | Uint8Array
+  ): SpectralFeatures {
+    const nyquist = sampleRate / 2;
+    const binSize = nyquist / frequencies.length;
+
+    let totalEnergy = 0;
+    let centroidSum = 0;
+
+    // Reconstruit le filterbank quand la taille de FFT ou le sample rate change en cours de route
+    if (!this.melFilterbank || this.melBinCount !== frequencies.length || this.melSampleRate !== sampleRate) {
+      this.melFilterbank = createMelFilterbank(frequencies.length * 2, MEL_BANDS, sampleRate);
+      this.prevMelEnergies = new Float32Array(MEL_BANDS).fill(0);
+      this.melBinCount = frequencies.length;
+      this.melSampleRate = sampleRate;
+    }
+
+    for (let i = 1; i < frequencies.length - 1; i++) {
+      const magnitude = frequencies[i] / 255;
+      const freq = i * binSize;
+
+      totalEnergy += magnitude;
+      centroidSum += magnitude * freq;
+    }
+
+    const centroid = totalEnergy > 0 ? (centroidSum / totalEnergy) / nyquist : 0;
+
+    let cumulativeEnergy = 0;
+    let rolloff = 0;
+    for (let i = 1; i < frequencies.length - 1; i++) {
+      cumulativeEnergy += frequencies[i] / 255;
+      if (cumulativeEnergy >= totalEnergy * 0.85) {
+        rolloff = (i * binSize) / nyquist;
+        break;
+      }
+    }
+
+    let spreadSum = 0;
+    if (totalEnergy > 0) {
+      const centroidHz = centroid * nyquist;
+      for (let i = 1; i < frequencies.length - 1; i++) {
+        const magnitude = frequencies[i] / 255;
+        const freq = i * binSize;
+        spreadSum += magnitude * Math.pow(freq - centroidHz, 2);
+      }
+    }
+    const spread = totalEnergy > 0 ? Math.sqrt(spreadSum / totalEnergy) / nyquist : 0;
+
+    let flux = 0;
+    if (this.melFilterbank && this.prevMelEnergies) {
+      flux = calculateRobustODF(frequencies, this.prevMelEnergies, this.melFilterbank, MEL_BANDS);
+    } else {
+      const spectralChanges: number[] = [];
+      for (let i = 1; i < frequencies.length - 1; i++) {
+        const change = frequencies[i] / 255 - this.prevFrequencies[i];
+        if (change > 0) {
+          spectralChanges.push(change);
+        }
+      }
+      flux = calculateMedian(spectralChanges);
+    }
+
+    if (this.prevFrequencies.length !== frequencies.length) {
+      this.prevFrequencies = new Float32Array(frequencies.length);
+    }
+    for (let i = 0; i < frequencies.length; i++) {
+      this.prevFrequencies[i] = frequencies[i] / 255;
+    }
+
+    return {
+      centroid: Math.min(1, centroid),
+      spread: Math.min(1, spread),
+      flux: Math.min(1, flux * 10),
+      rolloff: Math.min(1, rolloff),
+      ...this.calculateSpectralShape(frequencies, decibelRange, centroid, spread),
+      zcr: this.calculateZeroCrossingRate(timeDomain),
+    };
+  }
+
+  // Descripteurs de forme du spectre ; les plages de sortie sont documentées dans SpectralFeatures
+  private calculateSpectralShape(
+    frequencies: Uint8Array,
+    decibelRange: number,
+    centroid: number,
+    spread: number
+  ): Pick<SpectralFeatures, 'flatness' | 'crest' | 'skewness' | 'kurtosis' | 'slope' | 'hfc'> {
+    const binCount = frequencies.length - 2; // Bins 1 à N-2, comme les autres descripteurs
+    let powerSum = 0;
+    let activeLogPowerSum = 0; // Bins au-dessus du plancher (minDecibels) seulement
+    let activePowerSum = 0;
+    let activeBins = 0;
+    let energySum = 0;
+    let maxPower = 0;
+    let magnitudeSum = 0;
+    let hfcSum = 0;
+    let moment3 = 0;
+    let moment4 = 0;
+    let positionSum = 0;
+    let positionMagnitudeSum = 0;
+    let positionSquareSum = 0;
+
+    for (let i = 1; i < frequencies.length - 1; i++) {
+      const magnitude = frequencies[i] / 255;
+      // Puissance linéaire relative à minDecibels ; le décalage s'annule dans les rapports
+      const db = magnitude * decibelRange;
+      const power = Math.pow(10, db / 10);
+      const position = i / frequencies.length; // Fréquence normalisée (0-1 de Nyquist)
+
+      powerSum += power;
+      if (frequencies[i] > 0) {
+        activeLogPowerSum += db * Math.LN10 / 10;
+        activePowerSum += power;
+        activeBins++;
+      }
+      energySum += magnitude * magnitude;
+      maxPower = Math.max(maxPower, power);
+      hfcSum += position * magnitude * magnitude;
+
+      magnitudeSum += magnitude;
+      if (spread > 0) {
+        const deviation = (position - centroid) / spread;
+        moment3 += magnitude * deviation * deviation * deviation;
+        moment4 += magnitude * deviation * deviation * deviation * deviation;
+      }
+
+      positionSum += position;
+      positionMagnitudeSum += position * magnitude;
+      positionSquareSum += position * position;
+    }
+
+    const meanPower = powerSum / binCount;
+    // Platitude sur les seuls bins au-dessus du plancher : un bin à 0 vaut une puissance de 1 (minDecibels),
+    // un spectre creux ou très faible passerait sinon pour du bruit blanc. Pondérée par la part de bins actifs
+    // et atténuée sous flatnessMinEnergy.
+    const activeMeanPower = activeBins > 0 ? activePowerSum / activeBins : 0;
+    const activeFlatness = activeMeanPower > 0 ? Math.exp(activeLogPowerSum / activeBins) / activeMeanPower : 0;
+    const energyGate = Math.min(1, Math.sqrt(energySum / binCount) / SPECTRAL_SHAPE_CONFIG.flatnessMinEnergy);
+    const flatness = activeFlatness * (activeBins / binCount) * energyGate;
+    const crest = meanPower > 0 ? (10 * Math.log10(maxPower / meanPower)) / (10 * Math.log10(binCount)) : 0;
+
+    const skewness = magnitudeSum > 0 && spread > 0 ? moment3 / magnitudeSum : 0;
+    const kurtosis = magnitudeSum > 0 && spread > 0 ? moment4 / magnitudeSum : 0;
+
+    const meanPosition = positionSum / binCount;
+    const meanMagnitude = magnitudeSum / binCount;
+    const positionVariance = positionSquareSum / binCount - meanPosition * meanPosition;
+    const slope = positionVariance > 0
+      ? (positionMagnitudeSum / binCount - meanPosition * meanMagnitude) / positionVariance
+      : 0;
+
+    return {
+      flatness: Math.max(0, Math.min(1, flatness)),
+      crest: Math.max(0, Math.min(1, crest)),
+      skewness: Math.tanh(skewness / 5),
+      kurtosis: kurtosis > 1 ? Math.min(1, Math.log10(kurtosis) / 2) : 0,
+      slope: Math.max(-1, Math.min(1, slope)),
+      hfc: Math.min(1, (hfcSum / binCount) * 2),
+    };
+  }
+
+  // Taux de passage par zéro : échantillons float (-1/1) ou waveform 8 bits (128 = zéro)
+  private calculateZeroCrossingRate(timeDomain: Float32Array | Uint8Array): number {
+    if (timeDomain.length < 2) return 0;
+    const zero = timeDomain instanceof Uint8Array ? 128 : 0;
+    let crossings = 0;
+    let previous = timeDomain[0] - zero;
+    for (let i = 1; i < timeDomain.length; i++) {
+      const current = timeDomain[i] - zero;
+      if ((previous >= 0) !== (current >= 0)) crossings++;
+      previous = current;
+    }
+    return crossings / (timeDomain.length - 1);
+  }
+
+  // MFCC sur le filterbank Mel de l'ODF (construit par calculateSpectralFeatures)
+  private calculateMFCC(frequencies: Uint8Array, decibelRange: number, time: number): MFCCFeatures {
+    const melPowers = calculateMelPowers(frequencies, this.melFilterbank!, decibelRange);
+    return this.mfccExtractor.extract(melPowers, time);
+  }
+
+  // YIN sur les échantillons float s'ils sont fournis, sinon sur la waveform 8 bits normalisée
+  private detectPitch(waveform: Uint8Array, sampleRate: number, samples?: Float32Array) {
+    let pitchWindow = samples;
+    if (!pitchWindow) {
+      pitchWindow = new Float32Array(waveform.length);
+      let maxValue = 0;
+      for (let i = 0; i < waveform.length; i++) {
+        const sample = Math.abs((waveform[i] - 128) / 128);
+        if (sample > maxValue) maxValue = sample;
+      }
+      const normalizationFactor = maxValue > 0 ? 1 / maxValue : 1;
+      for (let i = 0; i < waveform.length; i++) {
+        pitchWindow[i] = ((waveform[i] - 128) / 128) * normalizationFactor;
+      }
+    }
+
+    // Le détecteur suit la taille de la fenêtre réellement disponible
+    if (!this.yinDetector || this.yinWindowSize !== pitchWindow.length) {
+      this.yinDetector = new YINPitchDetector(sampleRate, pitchWindow.length, 0.15);
+      this.yinWindowSize = pitchWindow.length;
+    }
+    this.yinDetector.updateSampleRate(sampleRate);
+
+    return this.yinDetector.detectPitch(pitchWindow);
+  }
+
+  // YIN-based melodic analysis with robust chromagram, plus polyphonic note set
+  private calculateMelodicFeatures(
+    waveform: Uint8Array,
+    frequencies: Uint8Array,
+    sampleRate: number,
+    decibelRange: number,
+    samples?: Float32Array,
+    skipPitch = false
+  ): MelodicFeatures {
+    const nyquist = sampleRate / 2;
+    const binSize = nyquist / frequencies.length;
+
+    let dominantFreq = 0;
+    let noteConfidence = 0;
+    if (!skipPitch) {
+      const pitchResult = this.detectPitch(waveform, sampleRate, samples);
+      dominantFreq = pitchResult.frequency;
+      noteConfidence = pitchResult.probability;
+    }
+
+    // FALLBACK: If YIN fails, use spectral peak detection
+    if (dominantFreq <= 0 || noteConfidence < 0.3) {
+      let maxMagnitude = 0;
+      let maxBin = 0;
+
+      // Focus on melodic range (80Hz - 1000Hz)
+      const minBin = Math.floor(80 / binSize);
+      const maxBinLimit = Math.floor(1000 / binSize);
+
+      for (let i = minBin; i < Math.min(maxBinLimit, frequencies.length); i++) {
+        if (frequencies[i] > maxMagnitude) {
+          maxMagnitude = frequencies[i];
+          maxBin = i;
+        }
+      }
+
+      if (maxMagnitude > 30) {
+        if (maxBin > 0 && maxBin < frequencies.length - 1) {
+          const y1 = frequencies[maxBin - 1];
+          const y2 = frequencies[maxBin];
+          const y3 = frequencies[maxBin + 1];
+
+          const x0 = (y3 - y1) / (2 * (2 * y2 - y1 - y3));
+          dominantFreq = (maxBin + x0) * binSize;
+        } else {
+          dominantFreq = maxBin * binSize;
+        }
+
+        noteConfidence = Math.min(0.8, maxMagnitude / 255);
+      }
+    }
+
+    const { note } = frequencyToNote(dominantFreq);
+
+    // Robust chromagram calculation with temporal smoothing
+    const chroma = new Array(12).fill(0);
+    for (let i = 1; i < frequencies.length; i++) {
+      const freq = i * binSize;
+      const magnitude = frequencies[i] / 255;
+
+      if (freq < 80 || freq > 4000) continue;
+
+      const midiNote = 12 * Math.log2(freq / 440) + 69;
+      const pitchClass = ((Math.round(midiNote) % 12) + 12) % 12;
+      const weight = magnitude * A_WEIGHTING(freq);
+
+      chroma[pitchClass] += weight * 0.7;
+      chroma[(pitchClass + 11) % 12] += weight * 0.15;
+      chroma[(pitchClass + 1) % 12] += weight * 0.15;
+    }
+
+    const chromaSum = chroma.reduce((a, b) => a + b, 0);
+    if (chromaSum > 0) {
+      for (let i = 0; i < 12; i++) {
+        chroma[i] /= chromaSum;
+      }
+    }
+
+    for (let i = 0; i < 12; i++) {
+      this.chromaSmoothing[i] = this.chromaSmoothing[i] * CHROMA_SMOOTHING + chroma[i] * (1 - CHROMA_SMOOTHING);
+    }
+
+    let harmonicContent = 0;
+    if (dominantFreq > 0 && frequencies.length > 0) {
+      const fundamentalBin = Math.floor(dominantFreq / binSize);
+      let fundamentalEnergy = 0;
+      let harmonicEnergy = 0;
+
+      for (let i = -1; i <= 1; i++) {
+        const bin = fundamentalBin + i;
+        if (bin >= 0 && bin < frequencies.length) {
+          fundamentalEnergy += frequencies[bin] / 255;
+        }
+      }
+      fundamentalEnergy /= 3;
+
+      for (let harmonic = 2; harmonic <= 6; harmonic++) {
+        const harmonicBin = Math.floor((dominantFreq * harmonic) / binSize);
+        if (harmonicBin < frequencies.length) {
+          let energy = 0;
+          for (let i = -1; i <= 1; i++) {
+            const bin = harmonicBin + i;
+            if (bin >= 0 && bin < frequencies.length) {
+              energy += frequencies[bin] / 255;
+            }
+          }
+          harmonicEnergy += energy / 3;
+        }
+      }
+
+      if (fundamentalEnergy > 0.01) {
+        harmonicContent = Math.min(1, harmonicEnergy / (fundamentalEnergy * 5));
+      }
+    }
+
+    return {
+      dominantFrequency: dominantFreq,
+      dominantNote: note,
+      noteConfidence,
+      harmonicContent,
+      // Copie : la trame doit rester valide après la prochaine analyse (transfert worker)
+      pitchClass: [...this.chromaSmoothing],
+      // YIN ne suit qu'une note : l'estimation polyphonique donne toutes celles qui sonnent
+      activeNotes: skipPitch ? [] : this.multiPitchEstimator.estimate(frequencies, sampleRate, decibelRange)
+    };
+  }
+
+  // Autocorrelation-based tempo, phase-locked beat tracking on the same ODF
+  private calculateRhythmicFeatures(spectralFlux: number, currentTime: number, bassEnergy: number, kick: boolean): RhythmicFeatures {
+    this.odfHistory.push(spectralFlux);
+    if (this.odfHistory.length > ODF_HISTORY_SIZE) {
+      this.odfHistory.shift();
+    }
+
+    if (this.lastOdfTime !== null) {
+      const interval = currentTime - this.lastOdfTime;
+      if (interval > 0 && interval < ODF_RATE_CONFIG.maxGap) {
+        this.odfInterval = this.odfInterval * ODF_RATE_CONFIG.smoothing + interval * (1 - ODF_RATE_CONFIG.smoothing);
+      }
+    }
+    this.lastOdfTime = currentTime;
+
+    // La détection continue sous un verrou manuel : ses candidats restent visibles
+    const detectedBPM = this.bpmDetector.detectBPM(this.odfHistory, 1 / this.odfInterval);
+    const bpm = this.manualBPM ?? detectedBPM;
+    const confidence = this.manualBPM !== null ? 1 : this.bpmDetector.getConfidence();
+
+    const tracked = this.beatTracker.update(spectralFlux, bassEnergy, currentTime, bpm, kick);
+
+    // Subdivision estimée à partir des transitoires de la trame précédente
+    const { transients } = this.prevData;
+    const transientCount = [transients.bass, transients.mid, transients.treble].filter(Boolean).length;
+    let subdivision = 1;
+    if (transientCount >= 2) subdivision = 2;
+    if (transientCount === 3) subdivision = 4;
+
+    return {
+      bpm: Math.round(bpm * 10) / 10,
+      bpmConfidence: confidence * 100,
+      beatPhase: Math.round(tracked.beatPhase * 1000) / 1000,
+      subdivision,
+      groove: confidence * 100,
+      beat: tracked.beat,
+      downbeat: tracked.downbeat,
+      beatInBar: tracked.beatInBar,
+      nextBeatTime: tracked.nextBeatTime,
+      tempoCandidates: this.bpmDetector.getCandidates(),
+      bpmLocked: this.manualBPM !== null
+    };
+  }
+
+  private calculateDynamicValue(value: number, envelope: { min: number; max: number }): number {
+    if (value > envelope.max) {
+      envelope.max = value * (1 - ENVELOPE_CONFIG.adaptiveRate) + envelope.max * ENVELOPE_CONFIG.adaptiveRate;
+    } else {
+      envelope.max *= (1 - ENVELOPE_CONFIG.maxDecay);
+    }
+
+    if (value < envelope.min) {
+      envelope.min = value * (1 - ENVELOPE_CONFIG.adaptiveRate) + envelope.min * ENVELOPE_CONFIG.adaptiveRate;
+    } else {
+      envelope.min = envelope.min * (1 + ENVELOPE_CONFIG.minDecay) + ENVELOPE_CONFIG.minThreshold;
+    }
+
+    envelope.min = Math.max(0, Math.min(envelope.min, 0.9));
+    envelope.max = Math.max(envelope.min + 0.1, Math.min(envelope.max, 1));
+
+    const range = envelope.max - envelope.min;
+    return range > 0.01 ? Math.max(0, Math.min(1, (value - envelope.min) / range)) : value;
+  }
+
+  private detectTransients(currentBands: FrequencyBands, energy: number): Transients {
+    return {
+      bass: this.detectBandTransient(this.transientState.bass, TRANSIENT_CONFIG.bass, currentBands.bass),
+      mid: this.detectBandTransient(this.transientState.mid, TRANSIENT_CONFIG.mid, currentBands.mid),
+      treble: this.detectBandTransient(this.transientState.treble, TRANSIENT_CONFIG.treble, currentBands.treble),
+      overall: this.detectBandTransient(this.transientState.overall, TRANSIENT_CONFIG.overall, energy),
+    };
+  }
+
+  private detectBandTransient(
+    state: TransientState,
+    config: { threshold: number; multiplier: number; decay: number },
+    value: number
+  ): boolean {
+    state.history.shift();
+    state.history.push(value);
+
+    const avgHistory = state.history.reduce((a, b) => a + b, 0) / state.history.length;
+    const adaptiveThreshold = Math.max(config.threshold, avgHistory * config.multiplier);
+
+    const isTransient = value > adaptiveThreshold && value > state.value * config.multiplier;
+
+    state.value = state.value * config.decay + value * (1 - config.decay);
+
+    return isTransient;
+  }
+
+  private detectDrop(normalizedEnergy: number, time: number): number {
+    const now = time * 1000;
+    const surge = normalizedEnergy - this.prevNormalizedEnergy;
+
+    if (surge > DROP_CONFIG.threshold && now - this.lastDropTime > DROP_CONFIG.cooldown) {
+      this.dropIntensity = Math.min(1, surge);
+      this.lastDropTime = now;
+    }
+
+    this.prevNormalizedEnergy = normalizedEnergy;
+    this.dropIntensity *= DROP_CONFIG.decay;
+
+    return this.dropIntensity;
+  }
+}
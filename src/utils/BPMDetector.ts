@@ -1,5 +1,5 @@
 // BPM Detection Module for AuraSync - Refactored with Autocorrelation
-import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { AudioData, RhythmicFeatures } from '../types/audio';
 
 // Fonction pour calculer l'autocorrélation d'un signal (ODF buffer)
 function autocorrelation(buffer: number[]): number[] {
@@ -12,86 +12,189 @@ function autocorrelation(buffer: number[]): number[] {
     return acf;
 }
 
+export interface TempoCandidate {
+    bpm: number;
+    score: number; // 0-1, normalisé sur l'ensemble des candidats
+}
+
+export interface BPMDetectorOptions {
+    minBPM: number;
+    maxBPM: number;
+    preferredBPM: number; // Centre du prior : à score égal, le tempo le plus proche l'emporte
+    priorWidth: number; // Largeur du prior en octaves (Infinity = aucune préférence)
+}
+
+export const DEFAULT_BPM_DETECTOR_OPTIONS: BPMDetectorOptions = {
+    minBPM: 70,
+    maxBPM: 190,
+    preferredBPM: 120,
+    priorWidth: 1,
+};
+
+// Cohérence métrique : un vrai tempo est aussi soutenu par ses multiples (mesure) et sa moitié (croches)
+const METRICAL_WEIGHTS = [
+    { ratio: 1, weight: 1 },
+    { ratio: 2, weight: 0.5 },
+    { ratio: 4, weight: 0.25 },
+    { ratio: 0.5, weight: 0.25 },
+];
+
+const TEMPO_TRACKING = {
+    candidateCount: 5,
+    tolerance: 0.04, // Écart relatif sous lequel deux tempos sont considérés identiques
+    smoothing: 0.1, // Suivi des dérives lentes (pitch d'une platine, transition de mix)
+    switchFrames: 40, // Estimations consécutives (~1 s) avant d'accepter un saut de tempo
+    continuityBonus: 0.3, // Bonus de score pour les candidats proches du tempo suivi
+};
+
+// Valeur de l'ACF à un lag fractionnaire (interpolation linéaire)
+function acfAt(acf: number[], lag: number): number {
+    const index = Math.floor(lag);
+    if (index < 0 || index + 1 >= acf.length) return 0;
+    const fraction = lag - index;
+    return acf[index] * (1 - fraction) + acf[index + 1] * fraction;
+}
+
 export class BPMDetector {
     private bpmHistory: number[] = [];
     private readonly historySize = 15;
-    private readonly minBPM = 70;
-    private readonly maxBPM = 190;
+    private options: BPMDetectorOptions;
 
-    // NEW: Store ACF and bestLag for confidence calculation
-    private lastACF: number[] | null = null;
-    private lastBestLag: number = 0;
+    // Tempo suivi, et tempo concurrent qui doit persister avant de le remplacer
+    private currentBPM = 0;
+    private pendingBPM = 0;
+    private pendingFrames = 0;
+    private candidates: TempoCandidate[] = [];
 
     // NEW: Ignore transient confidence drops
     private confidenceHistory: number[] = [];
     private readonly confidenceHistorySize = 10;
 
-    // Pas besoin de garder un état interne complexe ici, la logique est plus directe.
+    constructor(options: Partial<BPMDetectorOptions> = {}) {
+        this.options = { ...DEFAULT_BPM_DETECTOR_OPTIONS, ...options };
+    }
+
+    public setOptions(options: Partial<BPMDetectorOptions>): void {
+        this.options = { ...this.options, ...options };
+        // Le tempo suivi n'a plus de sens hors de la nouvelle plage
+        if (this.currentBPM < this.options.minBPM || this.currentBPM > this.options.maxBPM) {
+            this.currentBPM = 0;
+            this.pendingBPM = 0;
+            this.pendingFrames = 0;
+            this.bpmHistory = [];
+        }
+    }
+
+    public getOptions(): BPMDetectorOptions {
+        return { ...this.options };
+    }
+
+    // Meilleurs candidats de la dernière estimation, du plus probable au moins probable
+    public getCandidates(): TempoCandidate[] {
+        return this.candidates.map(candidate => ({ ...candidate }));
+    }
 
     public detectBPM(odfHistory: number[], sampleRate: number): number {
         if (odfHistory.length < 128) { // On attend d'avoir assez de données
             return this.getStableBPM();
         }
 
-        // 1. Calculer l'autocorrélation sur l'historique de l'ODF
+        // 1. Autocorrélation de l'ODF, normalisée par l'énergie (lag 0)
         const acf = autocorrelation(odfHistory);
-
-        // 2. Définir la plage de recherche en "lags" (décalages) - FIXED calculation
-        const minLag = Math.floor(sampleRate * 60 / this.maxBPM);
-        const maxLag = Math.ceil(sampleRate * 60 / this.minBPM);
-
-        // 3. Trouver le pic de corrélation dans la plage plausible - IMPROVED peak detection
-        let maxCorrelation = -Infinity;
-        let bestLag = 0;
-
-        for (let lag = minLag; lag <= maxLag && lag < acf.length; lag++) {
-            // Vérifier que c'est un vrai pic local
-            if (lag > 0 && lag < acf.length - 1) {
-                if (acf[lag] > acf[lag - 1] && acf[lag] > acf[lag + 1] && acf[lag] > maxCorrelation) {
-                    maxCorrelation = acf[lag];
-                    bestLag = lag;
-                }
-            }
+        if (acf[0] <= 0) return this.getStableBPM();
+        for (let lag = acf.length - 1; lag >= 0; lag--) {
+            acf[lag] /= acf[0];
         }
 
-        // Store ACF and bestLag for confidence calculation
-        this.lastACF = acf;
-        this.lastBestLag = bestLag;
+        // 2. Score de chaque lag de la plage : cohérence métrique x prior x continuité
+        const minLag = Math.floor(sampleRate * 60 / this.options.maxBPM);
+        const maxLag = Math.min(acf.length - 2, Math.ceil(sampleRate * 60 / this.options.minBPM));
+        const scores: number[] = [];
+        for (let lag = minLag; lag <= maxLag; lag++) {
+            scores.push(this.scoreLag(acf, lag, sampleRate));
+        }
 
-        // 4. Convertir le meilleur lag en BPM
-        if (bestLag > 0) {
-            const calculatedBPM = 60 / (bestLag / sampleRate);
+        // 3. Pics locaux du score, affinés par interpolation parabolique
+        const peaks: TempoCandidate[] = [];
+        for (let i = 1; i < scores.length - 1; i++) {
+            if (scores[i] > scores[i - 1] && scores[i] >= scores[i + 1] && scores[i] > 0) {
+                const denominator = scores[i - 1] - 2 * scores[i] + scores[i + 1];
+                const offset = denominator !== 0 ? 0.5 * (scores[i - 1] - scores[i + 1]) / denominator : 0;
+                const lag = minLag + i + offset;
+                peaks.push({ bpm: 60 * sampleRate / lag, score: scores[i] });
+            }
+        }
 
-            // 5. Ajouter à l'historique pour stabilisation
-            this.bpmHistory.push(calculatedBPM);
+        peaks.sort((a, b) => b.score - a.score);
+        const top = peaks.slice(0, TEMPO_TRACKING.candidateCount);
+        const total = top.reduce((sum, candidate) => sum + candidate.score, 0);
+        this.candidates = top.map(candidate => ({
+            bpm: Math.round(candidate.bpm * 10) / 10,
+            score: total > 0 ? candidate.score / total : 0,
+        }));
+
+        // 4. Suivi du tempo à partir du meilleur candidat
+        if (top.length > 0) {
+            this.bpmHistory.push(top[0].bpm);
             if (this.bpmHistory.length > this.historySize) {
                 this.bpmHistory.shift();
             }
+            this.trackTempo(top[0].bpm);
         }
 
-        // 6. Retourner une valeur stable
         return this.getStableBPM();
     }
 
-    // NEW: Calculate peak prominence for better confidence metrics
-    private calculatePeakProminence(acf: number[], bestLag: number): number {
-        const peakValue = acf[bestLag];
-        // Trouver le 2e pic dans une fenêtre éloignée
-        let secondPeak = 0;
-        for (let lag = bestLag + 10; lag < acf.length; lag++) {
-            secondPeak = Math.max(secondPeak, acf[lag]);
+    private scoreLag(acf: number[], lag: number, sampleRate: number): number {
+        let score = 0;
+        for (const { ratio, weight } of METRICAL_WEIGHTS) {
+            score += Math.max(0, acfAt(acf, lag * ratio)) * weight;
         }
-        return peakValue / (secondPeak || 1);
+
+        const bpm = 60 * sampleRate / lag;
+        const octaves = Math.log2(bpm / this.options.preferredBPM) / this.options.priorWidth;
+        score *= Math.exp(-0.5 * octaves * octaves);
+
+        if (this.currentBPM > 0) {
+            const deviation = (bpm / this.currentBPM - 1) / TEMPO_TRACKING.tolerance;
+            score *= 1 + TEMPO_TRACKING.continuityBonus * Math.exp(-0.5 * deviation * deviation);
+        }
+
+        return score;
     }
 
-    private getStableBPM(): number {
-        if (this.bpmHistory.length < 5) return 0;
+    // Dérive lente : lissage. Saut franc : accepté seulement s'il persiste.
+    private trackTempo(estimate: number): void {
+        if (this.currentBPM === 0) {
+            this.currentBPM = estimate;
+            return;
+        }
 
-        // Utiliser la médiane pour la stabilité
-        const sorted = [...this.bpmHistory].sort((a, b) => a - b);
-        const mid = Math.floor(sorted.length / 2);
+        if (Math.abs(estimate / this.currentBPM - 1) < TEMPO_TRACKING.tolerance) {
+            this.currentBPM += (estimate - this.currentBPM) * TEMPO_TRACKING.smoothing;
+            this.pendingFrames = 0;
+            return;
+        }
 
-        return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+        if (this.pendingBPM > 0 && Math.abs(estimate / this.pendingBPM - 1) < TEMPO_TRACKING.tolerance) {
+            this.pendingBPM = this.pendingBPM * 0.8 + estimate * 0.2;
+            this.pendingFrames++;
+        } else {
+            this.pendingBPM = estimate;
+            this.pendingFrames = 1;
+        }
+
+        if (this.pendingFrames >= TEMPO_TRACKING.switchFrames) {
+            console.log(`🥁 Changement de tempo : ${this.currentBPM.toFixed(1)} → ${this.pendingBPM.toFixed(1)} BPM`);
+            this.currentBPM = this.pendingBPM;
+            this.pendingBPM = 0;
+            this.pendingFrames = 0;
+        }
+    }
+
+    private getStableBPM(): number {
+        if (this.bpmHistory.length < 5) return 0;
+        return this.currentBPM;
     }
 
     public getConfidence(): number {
@@ -104,10 +207,11 @@ export class BPMDetector {
 
         let currentConfidence = stabilityFactor;
 
-        // Add peak prominence if available
-        if (this.lastACF && this.lastBestLag > 0) {
-            const prominence = this.calculatePeakProminence(this.lastACF, this.lastBestLag);
-            const prominenceFactor = Math.min(prominence / 3, 1);
+        // Netteté du meilleur candidat face au second (x2 d'écart = certitude)
+        if (this.candidates.length > 0) {
+            const [best, second] = this.candidates;
+            const prominence = second && second.score > 0 ? best.score / second.score : 2;
+            const prominenceFactor = Math.min(1, Math.max(0, prominence - 1));
             currentConfidence = (prominenceFactor + stabilityFactor) / 2;
         }
 
@@ -131,12 +235,14 @@ export class BPMDetector {
         return (timeSinceLastBeat % beatDuration) / beatDuration;
     }
 
-    // Predict next beat time
-    getNextBeatTime(currentTime: number, bpm: number): number {
+    // Predict next beat time (lastBeatTime : temps du dernier beat connu, cf. BeatTracker)
+    getNextBeatTime(currentTime: number, bpm: number, lastBeatTime: number): number {
         if (bpm === 0) return currentTime + 1;
 
         const beatDuration = 60 / bpm;
-        const phase = this.getBeatPhase(currentTime, bpm, 0);
+        if (lastBeatTime === 0) return currentTime + beatDuration;
+
+        const phase = this.getBeatPhase(currentTime, bpm, lastBeatTime);
         return currentTime + (1 - phase) * beatDuration;
     }
 }
@@ -174,6 +280,7 @@ export function useBPMDetection(audioData: AudioData) {
 }
 
 // Utility functions for BPM-synced animations
+// phase : rhythmicFeatures.beatPhase, qui suit le beat tracker (tap, verrou manuel et nudges compris)
 export const BPMSync = {
     // Get a value that oscillates with the beat (0-1-0)
     sineWave: (phase: number): number => {
@@ -198,5 +305,10 @@ export const BPMSync = {
     // Quantize time to nearest beat subdivision
     quantize: (phase: number, subdivisions: number): number => {
         return Math.floor(phase * subdivisions) / subdivisions;
+    },
+
+    // Position dans la mesure (0-1), à partir du temps courant et de la phase
+    barPhase: (rhythmic: RhythmicFeatures, beatsPerBar: number = 4): number => {
+        return (rhythmic.beatInBar + rhythmic.beatPhase) / beatsPerBar;
     }
 };
\ No newline at end of file
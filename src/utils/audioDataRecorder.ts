@@ -0,0 +1,175 @@
+// AudioData Recorder for AuraSync
+// Enregistre chaque trame analysée avec son horodatage, puis l'exporte en JSON Lines ou CSV
+// pour tracer les features dans un notebook (réglage de TRANSIENT_CONFIG, DROP_CONFIG...).
+// Les trames sont gardées telles quelles dans un tampon circulaire (les plus anciennes sont écrasées
+// au-delà de maxFrames) et ne sont sérialisées qu'à l'export.
+
+import type { AudioData } from '../types/audio';
+
+// Trame sérialisable : les buffers typés deviennent des tableaux simples (optionnels)
+export type SerializedAudioData = Omit<AudioData, 'frequencies' | 'waveform'> & {
+  frequencies?: number[];
+  waveform?: number[];
+};
+
+export interface RecordedFrame {
+  time: number; // Secondes depuis le début de l'enregistrement
+  audioData: SerializedAudioData;
+}
+
+export interface RecorderOptions {
+  includeSpectrum: boolean; // Conserver frequencies/waveform (lourd, mais nécessaire au replay)
+  maxFrames: number; // Taille du tampon circulaire : seules les dernières trames sont exportées
+}
+
+// Trame conservée : les features publiées ne sont jamais modifiées après coup, on garde la référence
+type StoredFrame = {
+  time: number;
+  features: Omit<AudioData, 'frequencies' | 'waveform'>;
+  frequencies?: Uint8Array;
+  waveform?: Uint8Array;
+};
+
+export type RecordingFormat = 'jsonl' | 'csv';
+
+// Aplatit un objet en colonnes "a.b.c" (les tableaux sont indexés : pitchClass.0 ... pitchClass.11)
+function flatten(value: unknown, prefix: string, row: Record<string, string | number>): void {
+  if (value === null || value === undefined) {
+    row[prefix] = '';
+  } else if (typeof value === 'boolean') {
+    row[prefix] = value ? 1 : 0;
+  } else if (typeof value === 'number' || typeof value === 'string') {
+    row[prefix] = value;
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => flatten(item, `${prefix}.${index}`, row));
+  } else if (typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, row);
+    }
+  }
+}
+
+function escapeCSV(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const RECORDER_CONFIG = {
+  maxFrames: 36000, // ~10 min à 60 trames/s
+  revokeDelay: 1000, // ms avant de libérer l'URL du fichier exporté
+};
+
+export class AudioDataRecorder {
+  private buffer: StoredFrame[] = [];
+  private head = 0; // Index de la plus ancienne trame une fois le tampon plein
+  private startTime = 0;
+  private recording = false;
+  private options: RecorderOptions = { includeSpectrum: false, maxFrames: RECORDER_CONFIG.maxFrames };
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  get frameCount(): number {
+    return this.buffer.length;
+  }
+
+  public start(options: Partial<RecorderOptions> = {}): void {
+    this.options = { ...this.options, ...options };
+    this.clear();
+    this.startTime = performance.now() / 1000;
+    this.recording = true;
+  }
+
+  public stop(): void {
+    this.recording = false;
+  }
+
+  public clear(): void {
+    this.buffer = [];
+    this.head = 0;
+  }
+
+  // Trames sérialisées, de la plus ancienne à la plus récente
+  public getFrames(): RecordedFrame[] {
+    const ordered = [...this.buffer.slice(this.head), ...this.buffer.slice(0, this.head)];
+    return ordered.map(frame => {
+      const audioData: SerializedAudioData = { ...frame.features };
+      if (frame.frequencies && frame.waveform) {
+        audioData.frequencies = Array.from(frame.frequencies);
+        audioData.waveform = Array.from(frame.waveform);
+      }
+      return { time: frame.time, audioData };
+    });
+  }
+
+  // À appeler pour chaque trame analysée ; ignoré hors enregistrement
+  public record(audioData: AudioData, timestamp: number = performance.now() / 1000): void {
+    if (!this.recording) return;
+
+    const { frequencies, waveform, ...features } = audioData;
+    const frame: StoredFrame = { time: timestamp - this.startTime, features };
+    if (this.options.includeSpectrum) {
+      frame.frequencies = frequencies;
+      frame.waveform = waveform;
+    }
+
+    if (this.buffer.length < this.options.maxFrames) {
+      this.buffer.push(frame);
+    } else {
+      this.buffer[this.head] = frame;
+      this.head = (this.head + 1) % this.buffer.length;
+    }
+  }
+
+  public toJSONL(): string {
+    return this.getFrames().map(frame => JSON.stringify(frame)).join('\n');
+  }
+
+  // Les spectres bruts sont exclus du CSV (un fichier par trame de 1024 colonnes n'est pas exploitable),
+  // de même que les événements (liste de longueur variable, à lire dans l'export JSONL)
+  public toCSV(): string {
+    const rows = this.getFrames().map(frame => {
+      // time (horloge d'enregistrement) et analysisTime (horloge d'analyse) ne doivent pas se confondre
+      const { frequencies, waveform, events, time: analysisTime, ...features } = frame.audioData;
+      const row: Record<string, string | number> = { time: frame.time, analysisTime };
+      flatten(features, '', row);
+      return row;
+    });
+
+    // Union des colonnes, dans l'ordre de première apparition
+    const columns: string[] = [];
+    const seen = new Set<string>();
+    for (const row of rows) {
+      for (const key of Object.keys(row)) {
+        if (!seen.has(key)) {
+          seen.add(key);
+          columns.push(key);
+        }
+      }
+    }
+
+    const lines = [columns.join(',')];
+    for (const row of rows) {
+      lines.push(columns.map(column => escapeCSV(row[column] ?? '')).join(','));
+    }
+    return lines.join('\n');
+  }
+
+  public export(format: RecordingFormat): Blob {
+    return format === 'csv'
+      ? new Blob([this.toCSV()], { type: 'text/csv' })
+      : new Blob([this.toJSONL()], { type: 'application/x-ndjson' });
+  }
+
+  // Déclenche le téléchargement de l'enregistrement dans le navigateur
+  public download(format: RecordingFormat, filename: string = `aurasync-recording-${Date.now()}`): void {
+    const url = URL.createObjectURL(this.export(format));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filename}.${format}`;
+    link.click();
+    // Révocation différée : une révocation immédiate peut annuler le téléchargement
+    setTimeout(() => URL.revokeObjectURL(url), RECORDER_CONFIG.revokeDelay);
+  }
+}
@@ -0,0 +1,118 @@
+// AudioData Replay for AuraSync
+// Relit un enregistrement produit par AudioDataRecorder (JSON Lines) trame par trame,
+// pour rejouer un moment musical précis de façon déterministe, sans matériel audio.
+
+import type { AudioData } from '../types/audio';
+import type { AudioEvent } from './audioEvents';
+import { createInitialAudioData } from './AudioAnalysisEngine';
+import type { RecordedFrame } from './audioDataRecorder';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !ArrayBuffer.isView(value);
+
+// Complète récursivement une valeur enregistrée avec les valeurs initiales (champs absents ou partiels)
+function mergeDefaults<T>(defaults: T, value: unknown): T {
+  if (value === undefined) return defaults;
+  if (!isPlainObject(defaults) || !isPlainObject(value)) return value as T;
+  const merged: Record<string, unknown> = { ...defaults };
+  for (const [key, child] of Object.entries(value)) {
+    merged[key] = mergeDefaults(defaults[key], child);
+  }
+  return merged as T;
+}
+
+export class AudioDataReplay {
+  private frames: RecordedFrame[];
+  private binCount: number;
+  private cursor = 0;
+
+  constructor(frames: RecordedFrame[]) {
+    if (frames.length === 0) {
+      throw new Error('Enregistrement vide : aucune trame à rejouer');
+    }
+    this.frames = [...frames].sort((a, b) => a.time - b.time);
+    // Taille des buffers : celle du spectre enregistré, sinon celle de la FFT d'origine, sinon la valeur initiale
+    const recorded = this.frames.find(frame => frame.audioData.frequencies)?.audioData.frequencies?.length
+      ?? (this.frames[0].audioData.fftSize ? this.frames[0].audioData.fftSize / 2 : undefined);
+    this.binCount = recorded ?? createInitialAudioData().frequencies.length;
+  }
+
+  static fromJSONL(text: string): AudioDataReplay {
+    const frames = text
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as RecordedFrame;
+        } catch {
+          throw new Error(`Ligne ${index + 1} invalide dans l'enregistrement`);
+        }
+      });
+    return new AudioDataReplay(frames);
+  }
+
+  static async fromBlob(blob: Blob): Promise<AudioDataReplay> {
+    return AudioDataReplay.fromJSONL(await blob.text());
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  get duration(): number {
+    return this.frames[this.frames.length - 1].time;
+  }
+
+  get currentIndex(): number {
+    return this.cursor;
+  }
+
+  // Horodatage de la trame courante (secondes depuis le début de l'enregistrement)
+  get position(): number {
+    return this.frames[this.cursor].time;
+  }
+
+  // Dernière trame dont l'horodatage est <= time (recherche dichotomique)
+  public seek(time: number): AudioData {
+    let low = 0;
+    let high = this.frames.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.frames[mid].time <= time) low = mid;
+      else high = mid - 1;
+    }
+    this.cursor = low;
+    return this.current();
+  }
+
+  // Avance (ou recule) d'un nombre entier de trames
+  public step(delta: number = 1): AudioData {
+    this.cursor = Math.max(0, Math.min(this.frames.length - 1, this.cursor + delta));
+    return this.current();
+  }
+
+  public current(): AudioData {
+    return this.deserialize(this.frames[this.cursor]);
+  }
+
+  // Événements des trames situées après fromIndex, jusqu'à la trame courante incluse
+  public eventsSince(fromIndex: number): AudioEvent[] {
+    const events: AudioEvent[] = [];
+    for (let i = Math.max(0, fromIndex + 1); i <= this.cursor; i++) {
+      const frameEvents = this.frames[i].audioData.events;
+      if (frameEvents) events.push(...frameEvents);
+    }
+    return events;
+  }
+
+  // Reconstruit une AudioData complète ; les champs absents (anciens enregistrements) gardent leur valeur initiale,
+  // y compris à l'intérieur des objets de features
+  private deserialize(frame: RecordedFrame): AudioData {
+    const { frequencies, waveform, ...features } = frame.audioData;
+    return {
+      ...mergeDefaults(createInitialAudioData(this.binCount), features),
+      frequencies: frequencies ? Uint8Array.from(frequencies) : new Uint8Array(this.binCount),
+      waveform: waveform ? Uint8Array.from(waveform) : new Uint8Array(this.binCount).fill(128),
+    };
+  }
+}
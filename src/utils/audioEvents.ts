@@ -0,0 +1,161 @@
+// Audio Events for AuraSync
+// Événements typés extraits de chaque trame analysée (temps, onsets, frappes de batterie, drop, note, tonalité, section).
+// Ils sont détectés dans l'engine, donc à la cadence d'analyse : une scène qui saute une image
+// de rendu les reçoit quand même, avec l'horodatage exact de la trame (audioData.time, horloge d'analyse).
+
+import type { AudioData, DrumLabel } from '../types/audio';
+
+export type OnsetBand = 'bass' | 'mid' | 'treble' | 'overall' | `band:${string}`;
+
+export interface AudioEventMap {
+  beat: { bpm: number; beatInBar: number };
+  downbeat: { bpm: number };
+  onset: { band: OnsetBand; strength: number }; // strength 0-1 (valeur dynamique de la bande)
+  drumHit: { label: DrumLabel; strength: number }; // Onset percussif étiqueté (cf. DrumClassifier)
+  drop: { intensity: number };
+  noteChange: { note: string; previousNote: string | null; frequency: number };
+  keyChange: { key: string; mode: string; previousKey: string | null; previousMode: string | null };
+  sectionChange: { section: AudioData['structure']['section']; previousSection: AudioData['structure']['previousSection'] };
+}
+
+export type AudioEventType = keyof AudioEventMap;
+
+// Union discriminée par `type` ; `time` en secondes sur l'horloge publiée dans audioData.time
+// (même repère que nextBeatTime), à comparer au time de la trame courante
+export type AudioEvent<K extends AudioEventType = AudioEventType> = {
+  [T in K]: { type: T; time: number } & AudioEventMap[T];
+}[K];
+
+export type AudioEventHandler<K extends AudioEventType> = (event: AudioEvent<K>) => void;
+
+const EVENT_CONFIG = {
+  dropRise: 0.01, // dropIntensity ne monte qu'au déclenchement d'un drop (elle décroît sinon)
+  minNoteConfidence: 0.5,
+};
+
+// Compare chaque trame à la précédente ; une instance par engine
+export class AudioEventDetector {
+  private prevDropIntensity = 0;
+  private lastNote: string | null = null;
+  private lastKey: { key: string; mode: string } | null = null;
+
+  public detect(data: Omit<AudioData, 'events'>): AudioEvent[] {
+    const events: AudioEvent[] = [];
+    const { time, rhythmicFeatures, transients, dynamicBands, melodicFeatures, musicalContext, structure } = data;
+
+    if (rhythmicFeatures.beat) {
+      events.push({ type: 'beat', time, bpm: rhythmicFeatures.bpm, beatInBar: rhythmicFeatures.beatInBar });
+    }
+    if (rhythmicFeatures.downbeat) {
+      events.push({ type: 'downbeat', time, bpm: rhythmicFeatures.bpm });
+    }
+
+    if (transients.bass) events.push({ type: 'onset', time, band: 'bass', strength: dynamicBands.bass });
+    if (transients.mid) events.push({ type: 'onset', time, band: 'mid', strength: dynamicBands.mid });
+    if (transients.treble) events.push({ type: 'onset', time, band: 'treble', strength: dynamicBands.treble });
+    if (transients.overall) events.push({ type: 'onset', time, band: 'overall', strength: Math.min(1, data.energy) });
+    for (const name of data.multiBand.names) {
+      const band = data.multiBand.bands[name];
+      if (band?.transient) events.push({ type: 'onset', time, band: `band:${name}`, strength: band.dynamic });
+    }
+
+    for (const hit of data.percussion.hits) {
+      events.push({ type: 'drumHit', time: hit.time, label: hit.label, strength: hit.strength });
+    }
+
+    if (data.dropIntensity > this.prevDropIntensity + EVENT_CONFIG.dropRise) {
+      events.push({ type: 'drop', time, intensity: data.dropIntensity });
+    }
+    this.prevDropIntensity = data.dropIntensity;
+
+    const { dominantNote, noteConfidence, dominantFrequency } = melodicFeatures;
+    if (dominantNote !== 'N/A' && noteConfidence >= EVENT_CONFIG.minNoteConfidence && dominantNote !== this.lastNote) {
+      events.push({ type: 'noteChange', time, note: dominantNote, previousNote: this.lastNote, frequency: dominantFrequency });
+      this.lastNote = dominantNote;
+    }
+
+    const { key, mode } = musicalContext;
+    if (mode !== 'unknown' && (key !== this.lastKey?.key || mode !== this.lastKey?.mode)) {
+      events.push({
+        type: 'keyChange',
+        time,
+        key,
+        mode,
+        previousKey: this.lastKey?.key ?? null,
+        previousMode: this.lastKey?.mode ?? null,
+      });
+      this.lastKey = { key, mode };
+    }
+
+    if (structure.sectionChanged) {
+      events.push({ type: 'sectionChange', time, section: structure.section, previousSection: structure.previousSection });
+    }
+
+    return events;
+  }
+
+  public reset(): void {
+    Object.assign(this, new AudioEventDetector());
+  }
+}
+
+// Abonnés de chaque type d'événement, typés par type
+type AudioEventHandlers = { [K in AudioEventType]: Set<AudioEventHandler<K>> };
+
+const createHandlers = (): AudioEventHandlers => ({
+  beat: new Set(),
+  downbeat: new Set(),
+  onset: new Set(),
+  drumHit: new Set(),
+  drop: new Set(),
+  noteChange: new Set(),
+  keyChange: new Set(),
+  sectionChange: new Set(),
+});
+
+// Distribution des événements aux abonnés (scènes, UI)
+export class AudioEventBus {
+  private handlers = createHandlers();
+
+  // Renvoie la fonction de désabonnement
+  public on<K extends AudioEventType>(type: K, handler: AudioEventHandler<K>): () => void {
+    const set: Set<AudioEventHandler<K>> = this.handlers[type];
+    set.add(handler);
+    return () => {
+      set.delete(handler);
+    };
+  }
+
+  public emit(events: AudioEvent[]): void {
+    for (const event of events) {
+      // Le switch rétrécit event au type de son abonnement
+      switch (event.type) {
+        case 'beat': this.dispatch(this.handlers.beat, event); break;
+        case 'downbeat': this.dispatch(this.handlers.downbeat, event); break;
+        case 'onset': this.dispatch(this.handlers.onset, event); break;
+        case 'drumHit': this.dispatch(this.handlers.drumHit, event); break;
+        case 'drop': this.dispatch(this.handlers.drop, event); break;
+        case 'noteChange': this.dispatch(this.handlers.noteChange, event); break;
+        case 'keyChange': this.dispatch(this.handlers.keyChange, event); break;
+        case 'sectionChange': this.dispatch(this.handlers.sectionChange, event); break;
+      }
+    }
+  }
+
+  public clear(): void {
+    this.handlers = createHandlers();
+  }
+
+  private dispatch<K extends AudioEventType>(handlers: Set<AudioEventHandler<K>>, event: AudioEvent<K>): void {
+    handlers.forEach(handler => {
+      try {
+        handler(event);
+      } catch (error) {
+        console.error(`❌ Erreur dans un abonné à l'événement ${event.type}:`, error);
+      }
+    });
+  }
+}
+
+// Bus partagé, alimenté par l'audioStore à chaque trame analysée
+export const audioEvents = new AudioEventBus();
@@ -1,6 +1,7 @@
 import * as ConfigTypes from '../types/config'
-import type {AudioData} from '../hooks/useAudioAnalyzer'
+import type {AudioData} from '../types/audio'
 import type {AudioLink, ReactivityCurve} from '../types/config'
+import {BAND_PRESETS} from './bandLayout'
 
 // Reactivity curve functions
 export function applyReactivityCurve(value: number, curve: ConfigTypes.ReactivityCurve): number {
@@ -30,10 +31,31 @@ export function getAudioValue(audioData: AudioData, link: ConfigTypes.AudioLink)
     case 'none':
       return 0
     default:
+      if (link.startsWith('band:')) {
+        return getBandValue(audioData, link.slice(5))
+      }
       return 0
   }
 }
 
+// Bande nommée du découpage courant ; absente, on lit celle qui couvre le centre de la bande
+// de même nom du preset 6 bandes (les liens "band:sub"... restent valables avec tout découpage)
+function getBandValue(audioData: AudioData, name: string): number {
+  const { bands } = audioData.multiBand
+  if (bands[name]) return bands[name].value
+
+  const reference = BAND_PRESETS.sixBand.bands.find(band => band.name === name)
+  if (!reference) return 0
+  const center = Math.sqrt(reference.from * reference.to)
+  return Object.values(bands).find(band => center >= band.from && center < band.to)?.value ?? 0
+}
+
+// Gain global des scènes : normalisation de sonie (si activée) puis réglage manuel
+export function getVolumeGain(audioData: AudioData, globalConfig: ConfigTypes.GlobalSettings): number {
+  const loudnessGain = globalConfig.autoLoudness ? audioData.loudness.normalizationGain : 1
+  return loudnessGain * globalConfig.volumeMultiplier
+}
+
 // Apply audio-reactive scaling with configuration
 export function calculateAudioScale(
   audioData: AudioData,
@@ -77,14 +99,17 @@ export function smoothLerp(current: number, target: number, factor: number): num
   return current + (target - current) * factor
 }
 
-// BPM sync utilities (for future use)
+// BPM sync utilities : tempo détecté, ou verrouillé à la main (tap / lock)
 export function getBPM(audioData: AudioData): number {
-  // Simplified BPM detection - can be enhanced later
-  return audioData.beat ? 120 : 0 // Placeholder
+  return audioData.rhythmicFeatures.bpm
 }
 
-export function syncToBPM(time: number, bpm: number): number {
-  if (bpm === 0) return time
+// Phase (0-1) du temps courant sur la grille du beat tracker, nudges et recalages compris.
+// time est sur l'horloge d'analyse (audioData.time) ; une valeur extrapolée entre deux trames lisse la phase
+export function syncToBPM(audioData: AudioData, time: number = audioData.time): number {
+  const { bpm, nextBeatTime, beatPhase } = audioData.rhythmicFeatures
+  if (bpm === 0 || nextBeatTime === 0) return beatPhase
   const beatDuration = 60 / bpm
-  return (time % beatDuration) / beatDuration
+  const offset = (time - nextBeatTime) % beatDuration
+  return (offset < 0 ? offset + beatDuration : offset) / beatDuration
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+// Band Layout for AuraSync
+// Découpage du spectre en bandes nommées (fréquences de coupure libres ou presets).
+// Chaque bande est analysée séparément par l'engine : valeur, enveloppe dynamique et transitoires.
+
+export interface BandDefinition {
+  name: string;
+  from: number; // Hz, inclus
+  to: number; // Hz, exclu
+}
+
+export interface BandLayout {
+  name: string;
+  bands: BandDefinition[];
+}
+
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+const MIN_BAND_RATIO = 1.1; // Largeur minimale d'une bande (to / from), soit ~1/6 d'octave
+
+/**
+ * Construit un découpage à partir des fréquences de coupure (dans n'importe quel ordre).
+ * N coupures donnent N+1 bandes entre 20 Hz et 20 kHz. Les coupures en double, hors plage
+ * ou trop proches de la précédente (bande plus étroite que MIN_BAND_RATIO) sont ignorées.
+ */
+export function createBandLayout(name: string, crossovers: number[], bandNames?: string[]): BandLayout {
+  const edges = [MIN_FREQUENCY];
+  for (const crossover of [...crossovers].sort((a, b) => a - b)) {
+    if (crossover / edges[edges.length - 1] >= MIN_BAND_RATIO && MAX_FREQUENCY / crossover >= MIN_BAND_RATIO) {
+      edges.push(crossover);
+    }
+  }
+  edges.push(MAX_FREQUENCY);
+  if (edges.length - 2 < crossovers.length) {
+    console.warn(`⚠️ Découpage ${name}: ${crossovers.length - (edges.length - 2)} coupure(s) ignorée(s) (doublon, hors plage ou trop proche)`);
+  }
+
+  if (bandNames && bandNames.length !== edges.length - 1) {
+    throw new Error(`${edges.length - 1} noms de bandes attendus, ${bandNames.length} reçus`);
+  }
+
+  const bands = edges.slice(0, -1).map((from, index) => ({
+    name: bandNames?.[index] ?? `${Math.round(Math.sqrt(from * edges[index + 1]))}Hz`,
+    from,
+    to: edges[index + 1],
+  }));
+
+  // Les noms servent de clés (multiBand.bands, liens audio "band:<nom>") : ils doivent être uniques
+  if (new Set(bands.map(band => band.name)).size !== bands.length) {
+    throw new Error(`Découpage ${name}: noms de bandes en double`);
+  }
+
+  return { name, bands };
+}
+
+// Bandes logarithmiques régulières, nommées par leur fréquence centrale ("63Hz", "1000Hz"...)
+export function createLogBandLayout(name: string, count: number): BandLayout {
+  const ratio = Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, 1 / count);
+  const crossovers = Array.from({ length: count - 1 }, (_, index) => Math.round(MIN_FREQUENCY * Math.pow(ratio, index + 1)));
+  return createBandLayout(name, crossovers);
+}
+
+export type BandPresetName = 'classic' | 'fourBand' | 'sixBand' | 'eightBand' | 'sixteenBand';
+
+export const BAND_PRESETS: Record<BandPresetName, BandLayout> = {
+  // Découpage historique (bands.bass / mid / treble)
+  classic: createBandLayout('classic', [250, 4000], ['bass', 'mid', 'treble']),
+  fourBand: createBandLayout('fourBand', [120, 500, 4000], ['sub', 'low', 'mid', 'high']),
+  sixBand: createBandLayout('sixBand', [60, 250, 500, 2000, 6000], ['sub', 'low', 'low-mid', 'mid', 'presence', 'air']),
+  eightBand: createLogBandLayout('eightBand', 8),
+  sixteenBand: createLogBandLayout('sixteenBand', 16),
+};
+
+export const DEFAULT_BAND_LAYOUT: BandLayout = BAND_PRESETS.sixBand;
@@ -0,0 +1,230 @@
+// Beat Tracker for AuraSync
+// Boucle à verrouillage de phase sur l'ODF mel : le tempo vient du BPMDetector,
+// les onsets proches d'un temps prédit recalent la phase petit à petit.
+// Les temps forts (downbeats) sont déduits de l'accent moyen de chaque position dans la mesure.
+// Contrôles manuels : tempo verrouillé, décalage de phase (nudge), recalage sur un tap ou sur le prochain kick.
+
+export interface BeatTrackerState {
+  beat: boolean; // Vrai sur la trame où un temps tombe
+  downbeat: boolean; // Vrai sur la trame du premier temps de la mesure
+  beatPhase: number; // 0-1, position dans le temps courant
+  beatInBar: number; // 0 = premier temps de la mesure
+  nextBeatTime: number; // Secondes, 0 sans tempo
+}
+
+const BEAT_TRACKER_CONFIG = {
+  beatsPerBar: 4,
+  phaseGain: 0.2, // Part de l'erreur de phase corrigée à chaque onset
+  tolerance: 0.25, // Fenêtre (en fraction de période) autour d'un temps prédit où un onset compte
+  thresholdFrames: 64, // Historique ODF pour le seuil adaptatif (~1.5 s)
+  thresholdMultiplier: 1.5,
+  minOnset: 0.02, // Plancher du seuil, évite de suivre le bruit dans les passages calmes
+  accentSmoothing: 0.85, // Mémoire de l'accent de chaque position dans la mesure
+  tempoChange: 0.01, // Écart relatif de période au-delà duquel le tempo a vraiment changé
+};
+
+const IDLE_STATE: BeatTrackerState = { beat: false, downbeat: false, beatPhase: 0, beatInBar: 0, nextBeatTime: 0 };
+
+export class BeatTracker {
+  private period = 0;
+  private lastBeatTime = 0;
+  private nextBeatTime = 0;
+  private beatIndex = 0;
+
+  // Détection de pics sur l'ODF : la trame précédente est un onset si c'est un maximum local
+  private odfHistory: number[] = [];
+  private prevOdf = [0, 0];
+  private prevTime = 0;
+
+  // Accent moyen par position dans la mesure, mesuré autour de chaque temps
+  private slotAccent = new Array(BEAT_TRACKER_CONFIG.beatsPerBar).fill(0);
+  private recentAccents: { time: number; value: number }[] = [];
+  private pendingAccent: { slot: number; until: number; max: number } | null = null;
+
+  // Commandes manuelles, appliquées à la prochaine trame (l'horloge d'analyse n'est connue qu'ici)
+  private locked = false;
+  private pendingNudge = 0; // En temps
+  private pendingAlign = false;
+  private resyncArmed = false;
+
+  /**
+   * @param odf Valeur de l'ODF mel pour la trame
+   * @param accent Énergie servant à repérer les temps forts (basses)
+   * @param time Temps de la trame en secondes
+   * @param bpm Tempo courant, 0 si inconnu
+   * @param kick Transitoire de basses sur la trame (recalage sur le prochain kick)
+   */
+  public update(odf: number, accent: number, time: number, bpm: number, kick: boolean = false): BeatTrackerState {
+    const onset = this.pickOnset(odf, time);
+    this.trackAccent(accent, time);
+
+    if (bpm <= 0) {
+      this.period = 0;
+      return IDLE_STATE;
+    }
+
+    const period = 60 / bpm;
+    if (this.period === 0) {
+      // Premier verrouillage : on démarre sur la trame courante, les onsets recaleront la phase
+      this.lastBeatTime = time;
+      this.nextBeatTime = time + period;
+      this.beatIndex = 0;
+    } else if (Math.abs(period - this.period) > this.period * BEAT_TRACKER_CONFIG.tempoChange) {
+      // Changement de tempo : la phase est conservée à partir du dernier temps
+      this.nextBeatTime = this.lastBeatTime + period;
+    } else if (period !== this.period) {
+      // Simple fluctuation de l'estimation : seul le reste du temps courant est mis à l'échelle,
+      // les recalages de phase déjà appliqués à nextBeatTime sont conservés
+      this.nextBeatTime = time + (this.nextBeatTime - time) * (period / this.period);
+    }
+    this.period = period;
+
+    let aligned = false;
+    if (this.pendingAlign || (this.resyncArmed && kick)) {
+      // Recalage : la trame courante devient un temps, et le premier de la mesure
+      this.nextBeatTime = time;
+      this.beatIndex = -1;
+      this.slotAccent.fill(0);
+      this.slotAccent[0] = 1;
+      this.pendingAlign = false;
+      this.resyncArmed = false;
+      aligned = true;
+    }
+
+    if (this.pendingNudge !== 0) {
+      // Nudge positif : la phase avance, les temps tombent plus tôt
+      this.lastBeatTime -= this.pendingNudge * period;
+      this.nextBeatTime -= this.pendingNudge * period;
+      this.pendingNudge = 0;
+    }
+
+    // Tempo verrouillé à la main : la phase ne suit plus les onsets, seulement les commandes
+    if (onset && !this.locked && !aligned) {
+      this.correctPhase(onset.time, onset.strength);
+    }
+
+    let beat = false;
+    if (time >= this.nextBeatTime) {
+      // Trou dans les trames (onglet en arrière-plan, silence) : on saute les temps manqués
+      const missed = Math.floor((time - this.nextBeatTime) / period);
+      this.nextBeatTime += missed * period;
+      this.beatIndex += missed;
+
+      this.lastBeatTime = this.nextBeatTime;
+      this.nextBeatTime += period;
+      this.beatIndex++;
+      beat = true;
+      this.startAccentWindow();
+    }
+
+    const beatInBar = this.getBeatInBar();
+    return {
+      beat,
+      downbeat: beat && beatInBar === 0,
+      beatPhase: Math.max(0, Math.min(0.999, (time - this.lastBeatTime) / period)),
+      beatInBar,
+      nextBeatTime: this.nextBeatTime,
+    };
+  }
+
+  public reset(): void {
+    const locked = this.locked;
+    Object.assign(this, new BeatTracker());
+    this.locked = locked;
+  }
+
+  public setLocked(locked: boolean): void {
+    this.locked = locked;
+  }
+
+  // Décale la grille de `beats` temps (±1/16 pour un nudge fin)
+  public nudge(beats: number): void {
+    this.pendingNudge += beats;
+  }
+
+  // La prochaine trame analysée devient un temps (tap)
+  public alignBeat(): void {
+    this.pendingAlign = true;
+  }
+
+  // Le prochain kick détecté devient un temps
+  public resyncOnNextKick(): void {
+    this.resyncArmed = true;
+  }
+
+  private pickOnset(odf: number, time: number): { time: number; strength: number } | null {
+    this.odfHistory.push(odf);
+    if (this.odfHistory.length > BEAT_TRACKER_CONFIG.thresholdFrames) {
+      this.odfHistory.shift();
+    }
+
+    const mean = this.odfHistory.reduce((a, b) => a + b, 0) / this.odfHistory.length;
+    const threshold = Math.max(BEAT_TRACKER_CONFIG.minOnset, mean * BEAT_TRACKER_CONFIG.thresholdMultiplier);
+    const [beforePeak, peak] = this.prevOdf;
+    const onset = peak > beforePeak && peak >= odf && peak > threshold
+      ? { time: this.prevTime, strength: Math.min(1, peak / (threshold * 2)) }
+      : null;
+
+    this.prevOdf = [peak, odf];
+    this.prevTime = time;
+    return onset;
+  }
+
+  // Recale la phase vers l'onset s'il tombe près du dernier temps ou du prochain
+  private correctPhase(onsetTime: number, strength: number): void {
+    const window = BEAT_TRACKER_CONFIG.tolerance * this.period;
+    const errorToNext = onsetTime - this.nextBeatTime;
+    const errorToLast = onsetTime - this.lastBeatTime;
+    const gain = BEAT_TRACKER_CONFIG.phaseGain * strength;
+
+    if (Math.abs(errorToNext) < window && Math.abs(errorToNext) <= Math.abs(errorToLast)) {
+      // Onset en avance sur le temps prédit
+      this.nextBeatTime += gain * errorToNext;
+    } else if (Math.abs(errorToLast) < window) {
+      // Onset en retard sur le temps déjà émis : toute la grille glisse
+      this.lastBeatTime += gain * errorToLast;
+      this.nextBeatTime += gain * errorToLast;
+    }
+  }
+
+  private trackAccent(accent: number, time: number): void {
+    this.recentAccents.push({ time, value: accent });
+    while (this.recentAccents.length > 0 && time - this.recentAccents[0].time > 0.5) {
+      this.recentAccents.shift();
+    }
+
+    if (this.pendingAccent) {
+      this.pendingAccent.max = Math.max(this.pendingAccent.max, accent);
+      if (time >= this.pendingAccent.until) {
+        const { slot, max } = this.pendingAccent;
+        this.slotAccent[slot] = this.slotAccent[slot] * BEAT_TRACKER_CONFIG.accentSmoothing
+          + max * (1 - BEAT_TRACKER_CONFIG.accentSmoothing);
+        this.pendingAccent = null;
+      }
+    }
+  }
+
+  // Accent mesuré sur ± tolerance autour du temps qui vient de tomber
+  private startAccentWindow(): void {
+    const window = BEAT_TRACKER_CONFIG.tolerance * this.period;
+    let max = 0;
+    for (const { time, value } of this.recentAccents) {
+      if (time >= this.lastBeatTime - window) max = Math.max(max, value);
+    }
+    this.pendingAccent = {
+      slot: this.beatIndex % BEAT_TRACKER_CONFIG.beatsPerBar,
+      until: this.lastBeatTime + window,
+      max,
+    };
+  }
+
+  // La position la plus accentuée de la mesure est considérée comme le premier temps
+  private getBeatInBar(): number {
+    const bar = BEAT_TRACKER_CONFIG.beatsPerBar;
+    let downbeatSlot = 0;
+    for (let slot = 1; slot < bar; slot++) {
+      if (this.slotAccent[slot] > this.slotAccent[downbeatSlot]) downbeatSlot = slot;
+    }
+    return ((this.beatIndex % bar) - downbeatSlot + bar) % bar;
+  }
+}
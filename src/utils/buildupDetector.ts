@@ -0,0 +1,138 @@
+// Build-up Detector for AuraSync
+// Repère les montées avant un drop : brillance qui grimpe, filtre qui s'ouvre (rolloff),
+// roulements de caisse claire qui s'accélèrent et risers dans les aigus.
+// Estime aussi le temps restant avant le drop, calé sur les phrases de 4/8/16/32 mesures quand le tempo est connu.
+
+export interface BuildupInput {
+  time: number; // Secondes
+  centroid: number; // 0-1
+  rolloff: number; // 0-1
+  treble: number; // Bande aiguë brute (0-1)
+  snare: boolean; // Transitoire médium sur la trame
+  bpm: number; // 0 si inconnu
+  dropIntensity: number; // 0-1
+}
+
+export interface BuildupState {
+  buildupProgress: number; // 0-1
+  timeToDrop: number; // Secondes, -1 hors build-up
+}
+
+const BUILDUP_CONFIG = {
+  historyStep: 0.25, // Pas d'échantillonnage des tendances (s)
+  window: 8, // Fenêtre de régression (s)
+  snareWindow: 2, // Fenêtre de comptage des caisses claires (s)
+  weights: { brightness: 0.3, sweep: 0.25, snareRoll: 0.25, riser: 0.2 },
+  attack: 0.05, // Montée de la progression vers l'indice courant
+  release: 0.01, // Retombée quand les indices disparaissent
+  startThreshold: 0.2, // Progression à partir de laquelle un build-up est en cours
+  dropTrigger: 0.3, // dropIntensity qui clôt le build-up
+  phraseBars: [4, 8, 16, 32],
+};
+
+type TrendSample = { time: number; centroid: number; rolloff: number; treble: number };
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Pente (unités par seconde) d'une régression linéaire
+function slope(samples: TrendSample[], key: 'centroid' | 'rolloff' | 'treble'): number {
+  const n = samples.length;
+  if (n < 2) return 0;
+  const meanTime = samples.reduce((sum, sample) => sum + sample.time, 0) / n;
+  const meanValue = samples.reduce((sum, sample) => sum + sample[key], 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (const sample of samples) {
+    covariance += (sample.time - meanTime) * (sample[key] - meanValue);
+    variance += (sample.time - meanTime) * (sample.time - meanTime);
+  }
+  return variance > 0 ? covariance / variance : 0;
+}
+
+export class BuildupDetector {
+  private history: TrendSample[] = [];
+  private snareTimes: number[] = [];
+  private progress = 0;
+  private buildupStartTime: number | null = null;
+
+  public update(input: BuildupInput): BuildupState {
+    const { time } = input;
+
+    const last = this.history[this.history.length - 1];
+    if (!last || time - last.time >= BUILDUP_CONFIG.historyStep) {
+      this.history.push({ time, centroid: input.centroid, rolloff: input.rolloff, treble: input.treble });
+      while (this.history.length > 0 && time - this.history[0].time > BUILDUP_CONFIG.window) {
+        this.history.shift();
+      }
+    }
+
+    if (input.snare) this.snareTimes.push(time);
+    while (this.snareTimes.length > 0 && time - this.snareTimes[0] > BUILDUP_CONFIG.snareWindow * 2) {
+      this.snareTimes.shift();
+    }
+
+    // Le drop clôt la montée
+    if (input.dropIntensity > BUILDUP_CONFIG.dropTrigger) {
+      if (this.buildupStartTime !== null) {
+        console.log(`🚀 Build-up terminé par le drop après ${(time - this.buildupStartTime).toFixed(1)} s`);
+      }
+      this.progress = 0;
+      this.buildupStartTime = null;
+      return { buildupProgress: 0, timeToDrop: -1 };
+    }
+
+    // Indices : pentes sur la fenêtre (une montée complète de la brillance en ~8 s donne 1)
+    const brightness = clamp01(slope(this.history, 'centroid') * BUILDUP_CONFIG.window / 0.3);
+    const sweep = clamp01(slope(this.history, 'rolloff') * BUILDUP_CONFIG.window / 0.4);
+    const riser = clamp01(slope(this.history, 'treble') * BUILDUP_CONFIG.window / 0.3);
+
+    // Roulement : densité récente élevée et en hausse par rapport à la fenêtre précédente
+    const recentSnares = this.snareTimes.filter(t => time - t <= BUILDUP_CONFIG.snareWindow).length;
+    const earlierSnares = this.snareTimes.length - recentSnares;
+    const snareRate = recentSnares / BUILDUP_CONFIG.snareWindow;
+    const acceleration = (recentSnares - earlierSnares) / BUILDUP_CONFIG.snareWindow;
+    const snareRoll = clamp01(snareRate / 8) * clamp01(0.5 + acceleration / 4);
+
+    const { weights } = BUILDUP_CONFIG;
+    const evidence = brightness * weights.brightness + sweep * weights.sweep
+      + snareRoll * weights.snareRoll + riser * weights.riser;
+
+    // La progression monte avec les indices et ne retombe que lentement (un build-up ne recule pas)
+    const rate = evidence > this.progress ? BUILDUP_CONFIG.attack : BUILDUP_CONFIG.release;
+    this.progress = clamp01(this.progress + (evidence - this.progress) * rate);
+
+    if (this.progress >= BUILDUP_CONFIG.startThreshold && this.buildupStartTime === null) {
+      this.buildupStartTime = time;
+    } else if (this.progress < BUILDUP_CONFIG.startThreshold * 0.5) {
+      this.buildupStartTime = null;
+    }
+
+    return {
+      buildupProgress: this.progress,
+      timeToDrop: this.estimateTimeToDrop(time, input.bpm),
+    };
+  }
+
+  public reset(): void {
+    Object.assign(this, new BuildupDetector());
+  }
+
+  private estimateTimeToDrop(time: number, bpm: number): number {
+    if (this.buildupStartTime === null) return -1;
+    const elapsed = time - this.buildupStartTime;
+
+    if (bpm > 0) {
+      // Le drop tombe en fin de phrase : plus courte phrase qui dépasse le temps déjà écoulé
+      const barDuration = 240 / bpm;
+      for (const bars of BUILDUP_CONFIG.phraseBars) {
+        const phrase = bars * barDuration;
+        if (phrase > elapsed) return phrase - elapsed;
+      }
+      return 0;
+    }
+
+    // Sans tempo : extrapolation linéaire de la progression
+    const progressRate = elapsed > 0 ? (this.progress - BUILDUP_CONFIG.startThreshold) / elapsed : 0;
+    return progressRate > 0 ? (1 - this.progress) / progressRate : -1;
+  }
+}
@@ -0,0 +1,125 @@
+// Drum Classifier for AuraSync
+// Détecte les onsets percussifs et les étiquette kick, snare/clap, hi-hat ou autre.
+// Chaque famille est repérée par la montée d'énergie (en dB) de sa zone du spectre,
+// comparée à un seuil adaptatif, puis départagée par les rapports entre zones et la platitude
+// spectrale (une caisse claire ou un clap est un bruit large bande, une note tenue ne l'est pas).
+
+import type { DrumHit, DrumLabel, PercussionFeatures } from '../types/audio';
+
+type Zone = 'low' | 'body' | 'noise' | 'high';
+
+const DRUM_CONFIG = {
+  zones: {
+    low: [30, 150], // Fondamentale du kick
+    body: [150, 400], // Corps de la caisse claire
+    noise: [1000, 5000], // Timbre de caisse claire, clap
+    high: [6000, 16000], // Hi-hat, cymbales
+  } as Record<Zone, [number, number]>,
+  thresholdFrames: 64, // Historique des montées pour le seuil adaptatif (~1.5 s)
+  thresholdMultiplier: 2,
+  minRise: 0.02, // Montée minimale (fraction de la plage en dB de l'analyseur)
+  snareFlatness: 0.3, // Platitude minimale de la zone 1-8 kHz pour un snare/clap
+  refractory: { kick: 0.08, snare: 0.06, hihat: 0.04, other: 0.06 } as Record<DrumLabel, number>, // Secondes
+};
+
+const ZONES: Zone[] = ['low', 'body', 'noise', 'high'];
+
+export class DrumClassifier {
+  private prevLevels: Record<Zone, number> | null = null;
+  private riseHistory: Record<Zone, number[]> = { low: [], body: [], noise: [], high: [] };
+  private lastHitTime: Record<DrumLabel, number> = { kick: 0, snare: 0, hihat: 0, other: 0 };
+
+  /**
+   * @param frequencies Magnitudes de la FFT (0-255, échelle en dB de l'analyseur)
+   * @param sampleRate Fréquence d'échantillonnage
+   * @param decibelRange maxDecibels - minDecibels de l'analyseur
+   * @param time Temps de la trame en secondes
+   */
+  public classify(frequencies: Uint8Array, sampleRate: number, decibelRange: number, time: number): PercussionFeatures {
+    const binSize = sampleRate / 2 / frequencies.length;
+    const levels = {} as Record<Zone, number>;
+    for (const zone of ZONES) {
+      const [low, high] = DRUM_CONFIG.zones[zone];
+      levels[zone] = this.zoneLevel(frequencies, binSize, low, high);
+    }
+
+    // Montée de chaque zone rapportée à son seuil : >= 1 signifie un onset dans la zone
+    const salience = {} as Record<Zone, number>;
+    for (const zone of ZONES) {
+      const rise = this.prevLevels ? Math.max(0, levels[zone] - this.prevLevels[zone]) : 0;
+      const history = this.riseHistory[zone];
+      const mean = history.length > 0 ? history.reduce((a, b) => a + b, 0) / history.length : 0;
+      const threshold = Math.max(DRUM_CONFIG.minRise, mean * DRUM_CONFIG.thresholdMultiplier);
+      salience[zone] = rise / threshold;
+
+      history.push(rise);
+      if (history.length > DRUM_CONFIG.thresholdFrames) history.shift();
+    }
+    this.prevLevels = levels;
+
+    const labels: DrumLabel[] = [];
+    const onset = ZONES.some(zone => salience[zone] >= 1);
+    if (onset) {
+      const flatness = this.flatness(frequencies, binSize, decibelRange, 1000, 8000);
+
+      // Kick : les basses montent plus que le bruit médium (un snare a aussi un peu de grave)
+      if (salience.low >= 1 && salience.low >= salience.noise) labels.push('kick');
+      // Snare/clap : bruit large bande dans les médiums-aigus, souvent avec le corps
+      const snare = salience.noise >= 1 && flatness >= DRUM_CONFIG.snareFlatness;
+      if (snare) labels.push('snare');
+      // Hi-hat : l'énergie monte surtout au-dessus de 6 kHz
+      if (salience.high >= 1 && (!snare || salience.high > salience.noise * 2) && salience.high > salience.low) {
+        labels.push('hihat');
+      }
+      if (labels.length === 0) labels.push('other');
+    }
+
+    const hits: DrumHit[] = [];
+    for (const label of labels) {
+      if (time - this.lastHitTime[label] < DRUM_CONFIG.refractory[label]) continue;
+      this.lastHitTime[label] = time;
+      const zone: Zone = label === 'kick' ? 'low' : label === 'snare' ? 'noise' : label === 'hihat' ? 'high' : 'body';
+      const strength = label === 'other' ? Math.max(...ZONES.map(z => salience[z])) : salience[zone];
+      hits.push({ label, strength: Math.min(1, strength / 3), time });
+    }
+
+    return {
+      hits,
+      kick: hits.some(hit => hit.label === 'kick'),
+      snare: hits.some(hit => hit.label === 'snare'),
+      hihat: hits.some(hit => hit.label === 'hihat'),
+      lastHitTime: { ...this.lastHitTime },
+    };
+  }
+
+  public reset(): void {
+    Object.assign(this, new DrumClassifier());
+  }
+
+  // Niveau moyen d'une zone, sur l'échelle en dB des octets (0-1)
+  private zoneLevel(frequencies: Uint8Array, binSize: number, low: number, high: number): number {
+    const start = Math.max(1, Math.floor(low / binSize));
+    const end = Math.min(frequencies.length - 1, Math.ceil(high / binSize));
+    if (end < start) return 0;
+    let sum = 0;
+    for (let i = start; i <= end; i++) sum += frequencies[i];
+    return sum / (end - start + 1) / 255;
+  }
+
+  // Platitude spectrale (moyenne géométrique / arithmétique des puissances), 0 tonal - 1 bruit
+  private flatness(frequencies: Uint8Array, binSize: number, decibelRange: number, low: number, high: number): number {
+    const start = Math.max(1, Math.floor(low / binSize));
+    const end = Math.min(frequencies.length - 1, Math.ceil(high / binSize));
+    let logSum = 0;
+    let sum = 0;
+    let count = 0;
+    for (let i = start; i <= end; i++) {
+      const db = (frequencies[i] / 255) * decibelRange;
+      logSum += db * Math.LN10 / 10;
+      sum += Math.pow(10, db / 10);
+      count++;
+    }
+    if (count === 0 || sum <= 0) return 0;
+    return Math.exp(logSum / count) / (sum / count);
+  }
+}
@@ -0,0 +1,79 @@
+// Input Devices for AuraSync
+// Énumération des entrées audio et préférences persistées (périphérique choisi, gain et calibration par périphérique).
+// Les deviceId changent d'une session à l'autre : on retient le label, stable pour une même interface.
+
+export interface InputDevice {
+  deviceId: string;
+  label: string;
+  groupId: string;
+  labelled: boolean; // false avant l'autorisation micro : label synthétique, à ne pas persister
+}
+
+// Bruit de fond mesuré pendant quelques secondes de silence de la salle
+export interface MicCalibration {
+  noiseFloor: number; // dBFS RMS, mesuré après le gain d'entrée manuel
+  inputGain?: number; // Gain d'entrée linéaire pendant la mesure (absent des anciennes calibrations)
+  calibratedAt: number; // Date.now()
+}
+
+export interface InputDevicePreferences {
+  selectedLabel: string | null; // null = périphérique par défaut du système
+  gains: Record<string, number>; // Gain d'entrée linéaire, par label
+  calibrations: Record<string, MicCalibration>; // Par label
+}
+
+// Clé de gain du périphérique par défaut (label inconnu avant l'autorisation micro)
+export const DEFAULT_DEVICE_KEY = 'default';
+
+const STORAGE_KEY = 'aurasync.inputDevices';
+
+// Les labels ne sont renseignés qu'après une première autorisation getUserMedia
+export async function listInputDevices(): Promise<InputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput')
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Entrée ${index + 1}`,
+      groupId: device.groupId,
+      labelled: device.label !== '',
+    }));
+}
+
+// Le système préfixe parfois le périphérique par défaut ("Default - ", "Par défaut - ")
+const stripDefaultPrefix = (label: string) => label.replace(/^(default|par défaut)\s*-\s*/i, '').toLowerCase();
+
+// Correspondance exacte d'abord, puis au préfixe "par défaut" près ; jamais sur un label synthétique
+export function findDeviceByLabel(devices: InputDevice[], label: string): InputDevice | undefined {
+  const candidates = devices.filter(device => device.labelled);
+  const needle = stripDefaultPrefix(label);
+  return candidates.find(device => device.label === label)
+    ?? candidates.find(device => stripDefaultPrefix(device.label) === needle);
+}
+
+export function loadInputDevicePreferences(): InputDevicePreferences {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<InputDevicePreferences>;
+      return {
+        selectedLabel: parsed.selectedLabel ?? null,
+        gains: parsed.gains ?? {},
+        calibrations: parsed.calibrations ?? {},
+      };
+    }
+  } catch (err) {
+    console.warn('⚠️ Préférences des entrées audio illisibles, valeurs par défaut utilisées:', err);
+  }
+  return { selectedLabel: null, gains: {}, calibrations: {} };
+}
+
+export function saveInputDevicePreferences(preferences: InputDevicePreferences): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (err) {
+    console.warn('⚠️ Impossible de sauvegarder les préférences des entrées audio:', err);
+  }
+}
@@ -0,0 +1,181 @@
+// Loudness Meter for AuraSync
+// Sonie selon ITU-R BS.1770 : filtre de pondération K (shelf aigu + passe-haut),
+// puis moyenne quadratique par blocs de 100 ms.
+// Momentary = 400 ms, short-term = 3 s (EBU R128). Crête et facteur de crête sur 400 ms.
+
+import type { LoudnessFeatures } from '../types/audio';
+
+const LOUDNESS_CONFIG = {
+  blockDuration: 0.1, // s
+  momentaryBlocks: 4, // 400 ms
+  shortTermBlocks: 30, // 3 s
+  floor: -70, // LUFS / dBFS : seuil absolu de BS.1770, valeur rapportée pour le silence
+  target: -14, // LUFS, cible de la normalisation automatique
+  minGain: 0.25,
+  maxGain: 4,
+  gainSmoothing: 0.95, // Par bloc : la normalisation suit le morceau, pas chaque coup de kick
+};
+
+// Biquad en forme directe I, coefficients normalisés par a0
+class Biquad {
+  private readonly b0: number;
+  private readonly b1: number;
+  private readonly b2: number;
+  private readonly a1: number;
+  private readonly a2: number;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(b0: number, b1: number, b2: number, a1: number, a2: number) {
+    this.b0 = b0;
+    this.b1 = b1;
+    this.b2 = b2;
+    this.a1 = a1;
+    this.a2 = a2;
+  }
+
+  public process(x: number): number {
+    const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+// Pondération K pour une fréquence d'échantillonnage quelconque (paramètres analogiques de BS.1770)
+function createKWeighting(sampleRate: number): [Biquad, Biquad] {
+  // Étage 1 : shelf aigu (+4 dB au-dessus de ~1.7 kHz, effet de la tête)
+  const A = Math.pow(10, 3.99984385397 / 40);
+  let w0 = 2 * Math.PI * 1681.9744509555319 / sampleRate;
+  let alpha = Math.sin(w0) / (2 * 0.7071752369554193);
+  let cos = Math.cos(w0);
+  let a0 = (A + 1) - (A - 1) * cos + 2 * Math.sqrt(A) * alpha;
+  const shelf = new Biquad(
+    A * ((A + 1) + (A - 1) * cos + 2 * Math.sqrt(A) * alpha) / a0,
+    -2 * A * ((A - 1) + (A + 1) * cos) / a0,
+    A * ((A + 1) + (A - 1) * cos - 2 * Math.sqrt(A) * alpha) / a0,
+    2 * ((A - 1) - (A + 1) * cos) / a0,
+    ((A + 1) - (A - 1) * cos - 2 * Math.sqrt(A) * alpha) / a0
+  );
+
+  // Étage 2 : passe-haut RLB (~38 Hz)
+  w0 = 2 * Math.PI * 38.13547087613982 / sampleRate;
+  alpha = Math.sin(w0) / (2 * 0.5003270373253953);
+  cos = Math.cos(w0);
+  a0 = 1 + alpha;
+  const highPass = new Biquad(
+    (1 + cos) / 2 / a0,
+    -(1 + cos) / a0,
+    (1 + cos) / 2 / a0,
+    -2 * cos / a0,
+    (1 - alpha) / a0
+  );
+
+  return [shelf, highPass];
+}
+
+const toDb = (power: number) => (power > 0 ? Math.max(LOUDNESS_CONFIG.floor, 10 * Math.log10(power)) : LOUDNESS_CONFIG.floor);
+
+type Block = { weightedPower: number; power: number; peak: number };
+
+export class LoudnessMeter {
+  private sampleRate = 0;
+  private filters: [Biquad, Biquad] | null = null;
+  private blockSize = 0;
+  private blocks: Block[] = [];
+  private current: Block = { weightedPower: 0, power: 0, peak: 0 };
+  private currentCount = 0;
+  private normalizationGain = 1;
+
+  constructor(sampleRate: number = 44100) {
+    this.updateSampleRate(sampleRate);
+  }
+
+  public updateSampleRate(sampleRate: number): void {
+    if (sampleRate === this.sampleRate) return;
+    this.sampleRate = sampleRate;
+    this.filters = createKWeighting(sampleRate);
+    this.blockSize = Math.round(sampleRate * LOUDNESS_CONFIG.blockDuration);
+    this.current = { weightedPower: 0, power: 0, peak: 0 };
+    this.currentCount = 0;
+  }
+
+  /**
+   * Ajoute des échantillons nouveaux (jamais deux fois les mêmes).
+   * Le signal mono est compté comme deux canaux identiques (dual mono) : pour un mixage stéréo
+   * majoritairement corrélé, c'est ce que mesurerait un loudness meter sur L et R.
+   */
+  public process(samples: Float32Array): void {
+    if (!this.filters) return;
+    const [shelf, highPass] = this.filters;
+
+    for (let i = 0; i < samples.length; i++) {
+      const sample = samples[i];
+      const weighted = highPass.process(shelf.process(sample));
+      this.current.weightedPower += weighted * weighted;
+      this.current.power += sample * sample;
+      this.current.peak = Math.max(this.current.peak, Math.abs(sample));
+
+      if (++this.currentCount >= this.blockSize) {
+        this.blocks.push({
+          weightedPower: (this.current.weightedPower / this.currentCount) * 2, // dual mono
+          power: this.current.power / this.currentCount,
+          peak: this.current.peak,
+        });
+        if (this.blocks.length > LOUDNESS_CONFIG.shortTermBlocks) this.blocks.shift();
+        this.current = { weightedPower: 0, power: 0, peak: 0 };
+        this.currentCount = 0;
+        this.updateNormalizationGain();
+      }
+    }
+  }
+
+  public measure(): LoudnessFeatures {
+    const momentaryBlocks = this.blocks.slice(-LOUDNESS_CONFIG.momentaryBlocks);
+    const peak = momentaryBlocks.reduce((max, block) => Math.max(max, block.peak), 0);
+    const rms = Math.sqrt(this.meanOf(momentaryBlocks, 'power'));
+    const peakDb = peak > 0 ? Math.max(LOUDNESS_CONFIG.floor, 20 * Math.log10(peak)) : LOUDNESS_CONFIG.floor;
+    const rmsDb = rms > 0 ? Math.max(LOUDNESS_CONFIG.floor, 20 * Math.log10(rms)) : LOUDNESS_CONFIG.floor;
+
+    return {
+      momentary: this.loudnessOf(LOUDNESS_CONFIG.momentaryBlocks),
+      shortTerm: this.loudnessOf(LOUDNESS_CONFIG.shortTermBlocks),
+      peak: peakDb,
+      crestFactor: peak > 0 && rms > 0 ? peakDb - rmsDb : 0,
+      normalizationGain: this.normalizationGain,
+    };
+  }
+
+  public reset(): void {
+    this.blocks = [];
+    this.current = { weightedPower: 0, power: 0, peak: 0 };
+    this.currentCount = 0;
+    this.normalizationGain = 1;
+    this.filters = createKWeighting(this.sampleRate);
+  }
+
+  private meanOf(blocks: Block[], key: 'weightedPower' | 'power'): number {
+    return blocks.length > 0 ? blocks.reduce((sum, block) => sum + block[key], 0) / blocks.length : 0;
+  }
+
+  // L = -0.691 + 10 log10(somme des puissances pondérées), en LUFS
+  private loudnessOf(blockCount: number): number {
+    const power = this.meanOf(this.blocks.slice(-blockCount), 'weightedPower');
+    return power > 0 ? Math.max(LOUDNESS_CONFIG.floor, -0.691 + toDb(power)) : LOUDNESS_CONFIG.floor;
+  }
+
+  // Gain qui amène la sonie court terme sur la cible ; figé pendant les silences
+  private updateNormalizationGain(): void {
+    const shortTerm = this.loudnessOf(LOUDNESS_CONFIG.shortTermBlocks);
+    if (shortTerm <= LOUDNESS_CONFIG.floor + 10) return;
+
+    const target = Math.pow(10, (LOUDNESS_CONFIG.target - shortTerm) / 20);
+    const clamped = Math.max(LOUDNESS_CONFIG.minGain, Math.min(LOUDNESS_CONFIG.maxGain, target));
+    this.normalizationGain = this.normalizationGain * LOUDNESS_CONFIG.gainSmoothing
+      + clamped * (1 - LOUDNESS_CONFIG.gainSmoothing);
+  }
+}
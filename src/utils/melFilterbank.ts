@@ -44,6 +44,31 @@ export function createMelFilterbank(fftSize: number, melBands: number, sampleRat
     return filterbank;
 }
 
+/**
+ * Puissance linéaire par bande Mel, à partir des magnitudes en octets d'un AnalyserNode.
+ * Les octets sont une échelle en dB (0 = minDecibels, 255 = maxDecibels) : on revient
+ * en puissance avant de sommer, comme le suppose le calcul des MFCC.
+ * @param fftMagnitudes Les magnitudes de la FFT (0-255).
+ * @param melFilterbank La matrice de la banque de filtres Mel.
+ * @param decibelRange maxDecibels - minDecibels de l'analyseur.
+ * @returns La puissance de chaque bande, relative à minDecibels.
+ */
+export function calculateMelPowers(fftMagnitudes: Uint8Array, melFilterbank: number[][], decibelRange: number): Float32Array {
+    const powers = new Float32Array(fftMagnitudes.length);
+    for (let j = 0; j < fftMagnitudes.length; j++) {
+        powers[j] = fftMagnitudes[j] > 0 ? Math.pow(10, (fftMagnitudes[j] / 255) * decibelRange / 10) : 0;
+    }
+
+    const melPowers = new Float32Array(melFilterbank.length);
+    for (let i = 0; i < melFilterbank.length; i++) {
+        const filter = melFilterbank[i];
+        for (let j = 0; j < powers.length; j++) {
+            melPowers[i] += filter[j] * powers[j];
+        }
+    }
+    return melPowers;
+}
+
 /**
  * Calcule une Fonction de Détection d'Onset (ODF) robuste en utilisant une approche multi-bandes.
  * @param fftMagnitudes Le tableau des magnitudes de la FFT pour la trame actuelle.
@@ -0,0 +1,80 @@
+// MFCC Extractor for AuraSync
+// Coefficients cepstraux sur l'échelle Mel : log des puissances Mel (en dB) puis DCT-II orthonormée.
+// Les deltas sont la pente de chaque coefficient sur les dernières trames (régression sur l'horodatage),
+// en unités par seconde pour ne pas dépendre de la cadence d'analyse.
+
+import type { MFCCFeatures } from '../types/audio';
+
+export const MFCC_CONFIG = {
+  coefficients: 13, // c0 (niveau global) à c12
+  deltaFrames: 5, // Trames de la régression des deltas
+  floor: 1e-10, // Évite log(0) sur les bandes vides
+};
+
+export class MFCCExtractor {
+  private dctMatrix: number[][] = [];
+  private melBands = 0;
+  private history: { time: number; coefficients: number[] }[] = [];
+
+  /**
+   * @param melPowers Puissance linéaire de chaque bande Mel (cf. calculateMelPowers)
+   * @param time Temps de la trame en secondes
+   */
+  public extract(melPowers: Float32Array, time: number): MFCCFeatures {
+    if (melPowers.length !== this.melBands) {
+      this.buildDCT(melPowers.length);
+    }
+
+    const logMel = Array.from(melPowers, power => 10 * Math.log10(Math.max(MFCC_CONFIG.floor, power)));
+    const coefficients = this.dctMatrix.map(row => row.reduce((sum, weight, i) => sum + weight * logMel[i], 0));
+
+    this.history.push({ time, coefficients });
+    if (this.history.length > MFCC_CONFIG.deltaFrames) {
+      this.history.shift();
+    }
+
+    return { coefficients, deltas: this.calculateDeltas() };
+  }
+
+  public reset(): void {
+    this.history = [];
+  }
+
+  // DCT-II orthonormée, limitée aux premiers coefficients
+  private buildDCT(melBands: number): void {
+    this.melBands = melBands;
+    this.dctMatrix = [];
+    for (let k = 0; k < MFCC_CONFIG.coefficients; k++) {
+      const scale = Math.sqrt((k === 0 ? 1 : 2) / melBands);
+      const row: number[] = [];
+      for (let n = 0; n < melBands; n++) {
+        row.push(scale * Math.cos((Math.PI * k * (n + 0.5)) / melBands));
+      }
+      this.dctMatrix.push(row);
+    }
+    this.history = [];
+  }
+
+  private calculateDeltas(): number[] {
+    const count = this.history.length;
+    const deltas = new Array(MFCC_CONFIG.coefficients).fill(0);
+    if (count < 2) return deltas;
+
+    const meanTime = this.history.reduce((sum, frame) => sum + frame.time, 0) / count;
+    let variance = 0;
+    for (const frame of this.history) {
+      variance += (frame.time - meanTime) * (frame.time - meanTime);
+    }
+    if (variance <= 0) return deltas;
+
+    for (let k = 0; k < MFCC_CONFIG.coefficients; k++) {
+      const mean = this.history.reduce((sum, frame) => sum + frame.coefficients[k], 0) / count;
+      let covariance = 0;
+      for (const frame of this.history) {
+        covariance += (frame.time - meanTime) * (frame.coefficients[k] - mean);
+      }
+      deltas[k] = covariance / variance;
+    }
+    return deltas;
+  }
+}
@@ -0,0 +1,143 @@
+// Multi-Pitch Estimator for AuraSync
+// Estimation polyphonique par sommation harmonique itérative (à la Klapuri) :
+// on retient le candidat le plus saillant, on retire ses harmoniques du spectre, puis on recommence.
+
+import type { ActiveNote } from '../types/audio';
+
+const MULTI_PITCH_CONFIG = {
+  minMidi: 36, // C2 (65 Hz)
+  maxMidi: 96, // C7 (2093 Hz)
+  harmonics: 8,
+  maxNotes: 6,
+  relativeThreshold: 0.35, // Saillance minimale par rapport à la note la plus forte
+  absoluteThreshold: 0.01, // Saillance normalisée minimale (rejette le bruit de fond)
+  subtraction: 0.8, // Part de l'harmonique retirée du spectre après chaque note retenue
+  attack: 0.5, // Lissage temporel de la présence des notes
+  release: 0.15,
+  onThreshold: 0.4, // Hystérésis : une note s'allume au-dessus de onThreshold...
+  offThreshold: 0.2, // ...et s'éteint sous offThreshold
+  defaultDecibelRange: 80,
+};
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const midiToFrequency = (midi: number): number => 440 * Math.pow(2, (midi - 69) / 12);
+const midiToNoteName = (midi: number): string => `${NOTE_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`;
+
+export class MultiPitchEstimator {
+  private readonly candidateCount = MULTI_PITCH_CONFIG.maxMidi - MULTI_PITCH_CONFIG.minMidi + 1;
+  // Présence lissée (0-1) et état allumé de chaque note candidate
+  private presence = new Float32Array(this.candidateCount);
+  private active = new Uint8Array(this.candidateCount);
+
+  /**
+   * @param frequencies Spectre en octets (getByteFrequencyData)
+   * @param decibelRange maxDecibels - minDecibels de l'analyseur, pour revenir en amplitude linéaire
+   */
+  public estimate(
+    frequencies: Uint8Array,
+    sampleRate: number,
+    decibelRange: number = MULTI_PITCH_CONFIG.defaultDecibelRange
+  ): ActiveNote[] {
+    const binSize = sampleRate / 2 / frequencies.length;
+    const spectrum = new Float32Array(frequencies.length);
+    for (let i = 1; i < frequencies.length; i++) {
+      spectrum[i] = frequencies[i] > 0 ? Math.pow(10, ((frequencies[i] / 255 - 1) * decibelRange) / 20) : 0;
+    }
+
+    // Détection trame par trame
+    const detected = new Float32Array(this.candidateCount);
+    let strongest = 0;
+
+    for (let iteration = 0; iteration < MULTI_PITCH_CONFIG.maxNotes; iteration++) {
+      let bestIndex = -1;
+      let bestSalience = 0;
+
+      for (let c = 0; c < this.candidateCount; c++) {
+        if (detected[c] > 0) continue;
+        const salience = this.harmonicSalience(spectrum, midiToFrequency(MULTI_PITCH_CONFIG.minMidi + c), binSize);
+        if (salience > bestSalience) {
+          bestSalience = salience;
+          bestIndex = c;
+        }
+      }
+
+      if (bestIndex < 0 || bestSalience < MULTI_PITCH_CONFIG.absoluteThreshold) break;
+      if (iteration === 0) strongest = bestSalience;
+      else if (bestSalience < strongest * MULTI_PITCH_CONFIG.relativeThreshold) break;
+
+      detected[bestIndex] = bestSalience / strongest;
+      this.subtractHarmonics(spectrum, midiToFrequency(MULTI_PITCH_CONFIG.minMidi + bestIndex), binSize);
+    }
+
+    // Lissage temporel + hystérésis : les notes tenues ne clignotent pas d'une trame à l'autre
+    const notes: ActiveNote[] = [];
+    for (let c = 0; c < this.candidateCount; c++) {
+      const target = detected[c];
+      const rate = target > this.presence[c] ? MULTI_PITCH_CONFIG.attack : MULTI_PITCH_CONFIG.release;
+      this.presence[c] += (target - this.presence[c]) * rate;
+
+      const threshold = this.active[c] ? MULTI_PITCH_CONFIG.offThreshold : MULTI_PITCH_CONFIG.onThreshold;
+      this.active[c] = this.presence[c] > threshold ? 1 : 0;
+
+      if (this.active[c]) {
+        const midi = MULTI_PITCH_CONFIG.minMidi + c;
+        notes.push({
+          note: midiToNoteName(midi),
+          midi,
+          frequency: midiToFrequency(midi),
+          salience: Math.min(1, this.presence[c]),
+        });
+      }
+    }
+
+    return notes.sort((a, b) => b.salience - a.salience);
+  }
+
+  public reset(): void {
+    this.presence.fill(0);
+    this.active.fill(0);
+  }
+
+  // Somme pondérée (1/h) du maximum spectral autour de chaque harmonique, normalisée par la somme des poids
+  private harmonicSalience(spectrum: Float32Array, f0: number, binSize: number): number {
+    let sum = 0;
+    let weights = 0;
+
+    for (let h = 1; h <= MULTI_PITCH_CONFIG.harmonics; h++) {
+      const range = this.harmonicBinRange(f0 * h, binSize, spectrum.length);
+      if (!range) break;
+
+      let peak = 0;
+      for (let i = range[0]; i <= range[1]; i++) {
+        if (spectrum[i] > peak) peak = spectrum[i];
+      }
+      const weight = 1 / h;
+      sum += peak * weight;
+      weights += weight;
+    }
+
+    return weights > 0 ? sum / weights : 0;
+  }
+
+  private subtractHarmonics(spectrum: Float32Array, f0: number, binSize: number): void {
+    for (let h = 1; h <= MULTI_PITCH_CONFIG.harmonics; h++) {
+      const range = this.harmonicBinRange(f0 * h, binSize, spectrum.length);
+      if (!range) break;
+      for (let i = range[0]; i <= range[1]; i++) {
+        spectrum[i] *= 1 - MULTI_PITCH_CONFIG.subtraction;
+      }
+    }
+  }
+
+  // Bins à ± un demi-ton autour d'une fréquence (au moins le bin central)
+  private harmonicBinRange(frequency: number, binSize: number, binCount: number): [number, number] | null {
+    const center = Math.round(frequency / binSize);
+    if (center >= binCount - 1) return null;
+
+    const halfSemitone = Math.pow(2, 1 / 24);
+    const low = Math.max(1, Math.min(center, Math.floor(frequency / halfSemitone / binSize)));
+    const high = Math.min(binCount - 1, Math.max(center, Math.ceil(frequency * halfSemitone / binSize)));
+    return [low, high];
+  }
+}
@@ -0,0 +1,78 @@
+// Sample Ring Buffer for AuraSync
+// Conserve les N derniers échantillons float (pleine précision) pour les analyses
+// qui ont besoin d'une fenêtre plus longue que celle de l'analyseur (YIN notamment).
+
+export class SampleRingBuffer {
+  private buffer: Float32Array;
+  private writeIndex = 0;
+  private filled = 0;
+
+  constructor(capacity: number) {
+    this.buffer = new Float32Array(capacity);
+  }
+
+  get capacity(): number {
+    return this.buffer.length;
+  }
+
+  // Nombre d'échantillons valides (< capacity tant que le buffer ne s'est pas rempli une fois)
+  get length(): number {
+    return this.filled;
+  }
+
+  get isFull(): boolean {
+    return this.filled === this.buffer.length;
+  }
+
+  public push(samples: Float32Array): void {
+    const capacity = this.buffer.length;
+    // Bloc plus long que le buffer : seuls les derniers échantillons comptent
+    const source = samples.length > capacity ? samples.subarray(samples.length - capacity) : samples;
+
+    const firstPart = Math.min(source.length, capacity - this.writeIndex);
+    this.buffer.set(source.subarray(0, firstPart), this.writeIndex);
+    if (firstPart < source.length) {
+      this.buffer.set(source.subarray(firstPart), 0);
+    }
+
+    this.writeIndex = (this.writeIndex + source.length) % capacity;
+    this.filled = Math.min(capacity, this.filled + source.length);
+  }
+
+  /**
+   * Copie les `length` derniers échantillons dans l'ordre chronologique.
+   * Les positions pas encore remplies valent 0.
+   */
+  public read(length: number = this.buffer.length, output: Float32Array = new Float32Array(length)): Float32Array {
+    const capacity = this.buffer.length;
+    const count = Math.min(length, capacity);
+    const start = (this.writeIndex - count + capacity) % capacity;
+    const offset = output.length - count;
+
+    const firstPart = Math.min(count, capacity - start);
+    output.set(this.buffer.subarray(start, start + firstPart), offset);
+    if (firstPart < count) {
+      output.set(this.buffer.subarray(0, count - firstPart), offset + firstPart);
+    }
+
+    return output;
+  }
+
+  // Change la capacité en gardant les échantillons les plus récents
+  public resize(capacity: number): void {
+    if (capacity === this.buffer.length) return;
+
+    const keep = Math.min(this.filled, capacity);
+    const recent = this.read(keep);
+    this.buffer = new Float32Array(capacity);
+    this.writeIndex = 0;
+    this.filled = 0;
+    this.push(recent);
+  }
+
+  public clear(): void {
+    this.buffer.fill(0);
+    this.writeIndex = 0;
+    this.filled = 0;
+  }
+}
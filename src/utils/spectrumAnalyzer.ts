@@ -0,0 +1,134 @@
+/**
+ * Spectrum Analyzer for AuraSync
+ * Réimplémentation logicielle d'un AnalyserNode (FFT + fenêtre de Blackman + lissage + dB),
+ * utilisable hors du graphe Web Audio (Web Worker, analyse hors-ligne).
+ */
+
+/**
+ * FFT radix-2 en place (Cooley-Tukey itératif).
+ * @param real Partie réelle (taille puissance de 2).
+ * @param imag Partie imaginaire (même taille).
+ */
+export function fft(real: Float32Array, imag: Float32Array): void {
+    const n = real.length;
+
+    // Permutation bit-reverse
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) {
+            j ^= bit;
+        }
+        j ^= bit;
+        if (i < j) {
+            [real[i], real[j]] = [real[j], real[i]];
+            [imag[i], imag[j]] = [imag[j], imag[i]];
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const halfSize = size >> 1;
+        const angle = -2 * Math.PI / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < halfSize; k++) {
+                const cos = Math.cos(angle * k);
+                const sin = Math.sin(angle * k);
+                const evenIndex = start + k;
+                const oddIndex = evenIndex + halfSize;
+                const tRe = real[oddIndex] * cos - imag[oddIndex] * sin;
+                const tIm = real[oddIndex] * sin + imag[oddIndex] * cos;
+                real[oddIndex] = real[evenIndex] - tRe;
+                imag[oddIndex] = imag[evenIndex] - tIm;
+                real[evenIndex] += tRe;
+                imag[evenIndex] += tIm;
+            }
+        }
+    }
+}
+
+export interface SpectrumAnalyzerOptions {
+    fftSize: number;
+    smoothingTimeConstant: number;
+    minDecibels: number;
+    maxDecibels: number;
+}
+
+export class SpectrumAnalyzer {
+    private fftSize: number;
+    private smoothingTimeConstant: number;
+    private minDecibels: number;
+    private maxDecibels: number;
+
+    private window: Float32Array;
+    private real: Float32Array;
+    private imag: Float32Array;
+    private smoothedMagnitudes: Float32Array;
+
+    constructor(options: Partial<SpectrumAnalyzerOptions> = {}) {
+        this.fftSize = options.fftSize ?? 2048;
+        this.smoothingTimeConstant = options.smoothingTimeConstant ?? 0.75;
+        this.minDecibels = options.minDecibels ?? -90;
+        this.maxDecibels = options.maxDecibels ?? -10;
+
+        this.window = this.createBlackmanWindow(this.fftSize);
+        this.real = new Float32Array(this.fftSize);
+        this.imag = new Float32Array(this.fftSize);
+        this.smoothedMagnitudes = new Float32Array(this.fftSize / 2);
+    }
+
+    get frequencyBinCount(): number {
+        return this.fftSize / 2;
+    }
+
+    // Même fenêtre que la spécification Web Audio (alpha = 0.16)
+    private createBlackmanWindow(size: number): Float32Array {
+        const alpha = 0.16;
+        const a0 = (1 - alpha) / 2;
+        const a1 = 0.5;
+        const a2 = alpha / 2;
+        const window = new Float32Array(size);
+        for (let i = 0; i < size; i++) {
+            const x = i / size;
+            window[i] = a0 - a1 * Math.cos(2 * Math.PI * x) + a2 * Math.cos(4 * Math.PI * x);
+        }
+        return window;
+    }
+
+    /**
+     * Équivalent de getByteFrequencyData sur les fftSize derniers échantillons.
+     * @param samples Fenêtre temporelle d'au moins fftSize échantillons (les derniers sont utilisés).
+     */
+    public getByteFrequencyData(samples: Float32Array, output: Uint8Array = new Uint8Array(this.frequencyBinCount)): Uint8Array {
+        const offset = samples.length - this.fftSize;
+        for (let i = 0; i < this.fftSize; i++) {
+            this.real[i] = (samples[offset + i] || 0) * this.window[i];
+            this.imag[i] = 0;
+        }
+
+        fft(this.real, this.imag);
+
+        const tau = this.smoothingTimeConstant;
+        const range = this.maxDecibels - this.minDecibels;
+        for (let k = 0; k < output.length; k++) {
+            const magnitude = Math.sqrt(this.real[k] * this.real[k] + this.imag[k] * this.imag[k]) / this.fftSize;
+            this.smoothedMagnitudes[k] = tau * this.smoothedMagnitudes[k] + (1 - tau) * magnitude;
+
+            const db = 20 * Math.log10(this.smoothedMagnitudes[k] || 1e-12);
+            const scaled = Math.floor((255 / range) * (db - this.minDecibels));
+            output[k] = Math.max(0, Math.min(255, scaled));
+        }
+
+        return output;
+    }
+
+    /**
+     * Équivalent de getByteTimeDomainData (128 = silence).
+     */
+    public getByteTimeDomainData(samples: Float32Array, output: Uint8Array = new Uint8Array(this.frequencyBinCount)): Uint8Array {
+        const offset = samples.length - output.length;
+        for (let i = 0; i < output.length; i++) {
+            const scaled = Math.floor(128 * (1 + (samples[offset + i] || 0)));
+            output[i] = Math.max(0, Math.min(255, scaled));
+        }
+        return output;
+    }
+}
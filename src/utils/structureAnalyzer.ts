@@ -0,0 +1,170 @@
+// Structure Analyzer for AuraSync
+// Segmentation en direct du morceau : intro, build-up, drop, breakdown.
+// Enveloppes lentes (énergie, basses, brillance) comparées à leur maximum récent,
+// tendance sur quelques secondes, nouveauté spectrale et dropIntensity de l'engine.
+
+import type { SectionLabel, StructureFeatures } from '../types/audio';
+
+export interface StructureInput {
+  time: number; // Secondes
+  energy: number; // Énergie spectrale brute (0-1)
+  bass: number; // Bande basse brute (0-1)
+  centroid: number; // Centroïde spectral normalisé (0-1)
+  dropIntensity: number; // 0-1
+  buildupProgress: number; // 0-1, cf. BuildupDetector
+}
+
+const STRUCTURE_CONFIG = {
+  envelopeTime: 1.5, // Constante de temps des enveloppes lentes (s)
+  peakRelease: 60, // Oubli du maximum de référence (s) : suit le niveau du morceau en cours
+  minPeak: { energy: 0.25, bass: 0.25 }, // Évite de prendre le premier passage calme pour le maximum
+  historyStep: 0.25, // Pas d'échantillonnage de l'historique (s)
+  recentWindow: 2, // Fenêtre "maintenant" pour la tendance et la nouveauté (s)
+  referenceWindow: 6, // Fenêtre de comparaison qui précède (s)
+  holdTime: 1.5, // Durée pendant laquelle un candidat doit rester en tête avant de changer de section
+  minSectionDuration: 4, // Une section dure au moins ça, sauf drop franc
+  dropTrigger: 0.3, // dropIntensity qui fait basculer en drop immédiatement
+  confidenceSmoothing: 0.9,
+};
+
+// Sections reconnaissables en temps réel : l'outro suppose de connaître la fin du morceau (pré-analyse)
+type LiveSection = Exclude<SectionLabel, 'outro'>;
+const SECTIONS: LiveSection[] = ['intro', 'buildup', 'drop', 'breakdown'];
+
+type FeatureSample = { energy: number; bass: number; centroid: number };
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+export class StructureAnalyzer {
+  private lastTime: number | null = null;
+  private envelope: FeatureSample = { energy: 0, bass: 0, centroid: 0 };
+  private peak = { ...STRUCTURE_CONFIG.minPeak };
+  private history: FeatureSample[] = [];
+  private lastHistoryTime = 0;
+
+  private section: LiveSection = 'intro';
+  private previousSection: SectionLabel | null = null;
+  private sectionStartTime = 0;
+  private candidate: LiveSection = 'intro';
+  private candidateSince = 0;
+  private confidence = 0;
+  private hasDropped = false;
+
+  public analyze(input: StructureInput): StructureFeatures {
+    const { time } = input;
+    if (this.lastTime === null) {
+      this.sectionStartTime = time;
+      this.candidateSince = time;
+    }
+    const dt = this.lastTime === null ? 0 : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+
+    // 1. Enveloppes lentes et maximum de référence
+    const alpha = 1 - Math.exp(-dt / STRUCTURE_CONFIG.envelopeTime);
+    this.envelope.energy += (input.energy - this.envelope.energy) * alpha;
+    this.envelope.bass += (input.bass - this.envelope.bass) * alpha;
+    this.envelope.centroid += (input.centroid - this.envelope.centroid) * alpha;
+
+    const release = Math.exp(-dt / STRUCTURE_CONFIG.peakRelease);
+    this.peak.energy = Math.max(STRUCTURE_CONFIG.minPeak.energy, this.envelope.energy, this.peak.energy * release);
+    this.peak.bass = Math.max(STRUCTURE_CONFIG.minPeak.bass, this.envelope.bass, this.peak.bass * release);
+
+    if (time - this.lastHistoryTime >= STRUCTURE_CONFIG.historyStep) {
+      this.lastHistoryTime = time;
+      this.history.push({ ...this.envelope });
+      const maxLength = Math.ceil((STRUCTURE_CONFIG.recentWindow + STRUCTURE_CONFIG.referenceWindow) / STRUCTURE_CONFIG.historyStep);
+      if (this.history.length > maxLength) this.history.shift();
+    }
+
+    // 2. Niveau relatif, tendance et nouveauté
+    const relativeEnergy = clamp01(this.envelope.energy / this.peak.energy);
+    const relativeBass = clamp01(this.envelope.bass / this.peak.bass);
+    const { energyTrend, centroidTrend, novelty } = this.compareWindows();
+
+    // 3. Score de chaque section
+    if (input.dropIntensity > STRUCTURE_CONFIG.dropTrigger) this.hasDropped = true;
+    const scores: Record<LiveSection, number> = {
+      drop: relativeEnergy * relativeEnergy * relativeBass + (input.dropIntensity > STRUCTURE_CONFIG.dropTrigger ? 0.5 : 0),
+      buildup: Math.max(
+        input.buildupProgress,
+        (clamp01(energyTrend * 4) * 0.6 + clamp01(centroidTrend * 6) * 0.4) * (1 - relativeBass * relativeEnergy * 0.7)
+      ),
+      breakdown: (this.hasDropped ? 1 : 0.3) * (1 - relativeEnergy * 0.5) * (1 - relativeBass),
+      intro: (this.hasDropped ? 0.1 : 0.8) * (1 - relativeEnergy * relativeBass),
+    };
+
+    let best: LiveSection = this.section;
+    let total = 0;
+    for (const label of SECTIONS) {
+      total += scores[label];
+      if (scores[label] > scores[best]) best = label;
+    }
+    const frameConfidence = total > 0 ? scores[best] / total : 0;
+
+    // 4. Hystérésis : un candidat doit tenir avant de remplacer la section courante.
+    // Une forte nouveauté (changement net du son) raccourcit l'attente.
+    if (best !== this.candidate) {
+      this.candidate = best;
+      this.candidateSince = time;
+    }
+
+    const forcedDrop = input.dropIntensity > STRUCTURE_CONFIG.dropTrigger && this.section !== 'drop';
+    const settled = time - this.sectionStartTime >= STRUCTURE_CONFIG.minSectionDuration
+      && time - this.candidateSince >= STRUCTURE_CONFIG.holdTime * (1 - novelty * 0.6);
+    let sectionChanged = false;
+
+    if (forcedDrop || (this.candidate !== this.section && settled)) {
+      this.previousSection = this.section;
+      this.section = forcedDrop ? 'drop' : this.candidate;
+      this.sectionStartTime = time;
+      sectionChanged = true;
+      if (this.section === 'drop') this.hasDropped = true;
+      console.log(`🎬 Section: ${this.previousSection} → ${this.section}`);
+    }
+
+    const sectionConfidence = total > 0 ? scores[this.section] / total : frameConfidence;
+    this.confidence = this.confidence * STRUCTURE_CONFIG.confidenceSmoothing
+      + sectionConfidence * (1 - STRUCTURE_CONFIG.confidenceSmoothing);
+
+    return {
+      section: this.section,
+      confidence: this.confidence,
+      sectionChanged,
+      previousSection: this.previousSection,
+      sectionStartTime: this.sectionStartTime,
+      sectionDuration: time - this.sectionStartTime,
+      novelty,
+    };
+  }
+
+  public reset(): void {
+    Object.assign(this, new StructureAnalyzer());
+  }
+
+  // Fenêtre récente comparée à celle qui la précède
+  private compareWindows(): { energyTrend: number; centroidTrend: number; novelty: number } {
+    const recentLength = Math.round(STRUCTURE_CONFIG.recentWindow / STRUCTURE_CONFIG.historyStep);
+    if (this.history.length <= recentLength + 2) {
+      return { energyTrend: 0, centroidTrend: 0, novelty: 0 };
+    }
+
+    const mean = (samples: FeatureSample[]): FeatureSample => {
+      const sum = samples.reduce((acc, sample) => ({
+        energy: acc.energy + sample.energy,
+        bass: acc.bass + sample.bass,
+        centroid: acc.centroid + sample.centroid,
+      }), { energy: 0, bass: 0, centroid: 0 });
+      return { energy: sum.energy / samples.length, bass: sum.bass / samples.length, centroid: sum.centroid / samples.length };
+    };
+
+    const recent = mean(this.history.slice(-recentLength));
+    const reference = mean(this.history.slice(0, -recentLength));
+
+    const energyTrend = (recent.energy - reference.energy) / this.peak.energy;
+    const bassChange = (recent.bass - reference.bass) / this.peak.bass;
+    const centroidTrend = recent.centroid - reference.centroid;
+    const novelty = clamp01((Math.abs(energyTrend) + Math.abs(bassChange) + Math.abs(centroidTrend) * 2) / 1.5);
+
+    return { energyTrend, centroidTrend, novelty };
+  }
+}
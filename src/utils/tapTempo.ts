@@ -0,0 +1,44 @@
+// Tap Tempo for AuraSync
+// Tempo tapé à la main (touche ou bouton) : moyenne des intervalles des derniers taps.
+// Une pause trop longue recommence une nouvelle série.
+
+const TAP_CONFIG = {
+  maxTaps: 8,
+  resetAfter: 2, // Secondes sans tap avant de repartir de zéro
+  minBPM: 30,
+  maxBPM: 300,
+};
+
+export class TapTempo {
+  private taps: number[] = [];
+
+  get tapCount(): number {
+    return this.taps.length;
+  }
+
+  /**
+   * Enregistre un tap.
+   * @param time Secondes (horloge libre, seuls les écarts comptent)
+   * @returns Le tempo tapé, ou null tant qu'il n'y a pas au moins deux taps
+   */
+  public tap(time: number = performance.now() / 1000): number | null {
+    const last = this.taps[this.taps.length - 1];
+    if (last !== undefined && time - last > TAP_CONFIG.resetAfter) {
+      this.taps = [];
+    }
+
+    this.taps.push(time);
+    if (this.taps.length > TAP_CONFIG.maxTaps) {
+      this.taps.shift();
+    }
+    if (this.taps.length < 2) return null;
+
+    const averageInterval = (this.taps[this.taps.length - 1] - this.taps[0]) / (this.taps.length - 1);
+    const bpm = 60 / averageInterval;
+    return Math.max(TAP_CONFIG.minBPM, Math.min(TAP_CONFIG.maxBPM, Math.round(bpm * 10) / 10));
+  }
+
+  public reset(): void {
+    this.taps = [];
+  }
+}
@@ -0,0 +1,208 @@
+// Test Signal Generator for AuraSync
+// Signaux synthétiques à résultat connu (sweep, bruit rose, click track, note tenue, accord)
+// pour vérifier BPMDetector, YINPitchDetector et TimbreAnalyzer.detectKey sans fichier audio.
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_ALIASES: Record<string, string> = { Db: 'C#', Eb: 'D#', Gb: 'F#', Ab: 'G#', Bb: 'A#' };
+
+// Niveau de sortie : laisse de la marge avant saturation quand plusieurs oscillateurs se cumulent
+const OUTPUT_LEVEL = 0.5;
+const PINK_NOISE_SECONDS = 4;
+const CLICK_DURATION = 0.05; // s
+
+export type TestSignal =
+  | { type: 'sweep'; from: number; to: number; duration: number } // Sweep sinus logarithmique, en boucle
+  | { type: 'pinkNoise' }
+  | { type: 'clickTrack'; bpm: number; beatsPerBar?: number } // Premier temps accentué
+  | { type: 'note'; pitch: string | number } // "A4" ou fréquence en Hz
+  | { type: 'triad'; key: string; mode: 'major' | 'minor' }; // Accord de tonique, fondamentale en octave 4
+
+export type TestSignalType = TestSignal['type'];
+
+export const DEFAULT_TEST_SIGNALS: { [K in TestSignalType]: Extract<TestSignal, { type: K }> } = {
+  sweep: { type: 'sweep', from: 20, to: 20000, duration: 10 },
+  pinkNoise: { type: 'pinkNoise' },
+  clickTrack: { type: 'clickTrack', bpm: 128, beatsPerBar: 4 },
+  note: { type: 'note', pitch: 'A4' },
+  triad: { type: 'triad', key: 'C', mode: 'major' },
+};
+
+// "A4" -> 440 Hz (A4 = MIDI 69) ; accepte les bémols ("Bb3")
+export function noteToFrequency(note: string): number {
+  const match = /^([A-G][#b]?)(-?\d+)$/.exec(note.trim());
+  if (!match) throw new Error(`Note invalide: ${note}`);
+
+  const name = FLAT_ALIASES[match[1]] ?? match[1];
+  const pitchClass = NOTE_NAMES.indexOf(name);
+  if (pitchClass < 0) throw new Error(`Note invalide: ${note}`);
+
+  const midi = (parseInt(match[2], 10) + 1) * 12 + pitchClass;
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+export class TestSignalGenerator {
+  public readonly output: GainNode;
+  private context: BaseAudioContext;
+  private sources: AudioScheduledSourceNode[] = [];
+  private voiceGains: GainNode[] = [];
+  private generation = 0;
+  private pinkNoiseBuffer: AudioBuffer | null = null;
+  private current: TestSignal | null = null;
+
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+    this.output = context.createGain();
+    this.output.gain.value = OUTPUT_LEVEL;
+  }
+
+  get signal(): TestSignal | null {
+    return this.current;
+  }
+
+  get isPlaying(): boolean {
+    return this.current !== null;
+  }
+
+  // Remplace le signal en cours
+  public start(signal: TestSignal): void {
+    this.stop();
+    this.current = signal;
+    const generation = ++this.generation;
+
+    switch (signal.type) {
+      case 'sweep':
+        this.startSweep(signal.from, signal.to, signal.duration, generation);
+        break;
+      case 'pinkNoise':
+        this.startLoop(this.getPinkNoiseBuffer());
+        break;
+      case 'clickTrack':
+        this.startLoop(this.createClickTrackBuffer(signal.bpm, signal.beatsPerBar ?? 4));
+        break;
+      case 'note':
+        this.startTones([typeof signal.pitch === 'number' ? signal.pitch : noteToFrequency(signal.pitch)]);
+        break;
+      case 'triad': {
+        const root = noteToFrequency(`${signal.key}4`);
+        const third = signal.mode === 'major' ? 4 : 3;
+        this.startTones([0, third, 7].map(semitones => root * Math.pow(2, semitones / 12)));
+        break;
+      }
+    }
+  }
+
+  public stop(): void {
+    this.generation++;
+    this.current = null;
+    for (const source of this.sources) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Source jamais démarrée ou déjà arrêtée
+      }
+      source.disconnect();
+    }
+    this.sources = [];
+    this.voiceGains.forEach(gain => gain.disconnect());
+    this.voiceGains = [];
+  }
+
+  public dispose(): void {
+    this.stop();
+    this.output.disconnect();
+  }
+
+  private startSweep(from: number, to: number, duration: number, generation: number): void {
+    const oscillator = this.context.createOscillator();
+    const now = this.context.currentTime;
+    oscillator.type = 'sine';
+    oscillator.frequency.setValueAtTime(Math.max(from, 1), now);
+    oscillator.frequency.exponentialRampToValueAtTime(Math.max(to, 1), now + duration);
+    oscillator.connect(this.output);
+    oscillator.start(now);
+    oscillator.stop(now + duration);
+
+    // Reboucle tant que ce sweep est toujours le signal actif
+    oscillator.onended = () => {
+      this.sources = this.sources.filter(source => source !== oscillator);
+      oscillator.disconnect();
+      if (generation === this.generation) {
+        this.startSweep(from, to, duration, generation);
+      }
+    };
+    this.sources.push(oscillator);
+  }
+
+  private startTones(frequencies: number[]): void {
+    const level = 1 / frequencies.length;
+    for (const frequency of frequencies) {
+      const oscillator = this.context.createOscillator();
+      const gain = this.context.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.value = level;
+      oscillator.connect(gain).connect(this.output);
+      oscillator.start();
+      this.sources.push(oscillator);
+      this.voiceGains.push(gain);
+    }
+  }
+
+  private startLoop(buffer: AudioBuffer): void {
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(this.output);
+    source.start();
+    this.sources.push(source);
+  }
+
+  // Bruit rose par filtrage du bruit blanc (approximation de Paul Kellet, -3 dB/octave)
+  private getPinkNoiseBuffer(): AudioBuffer {
+    if (this.pinkNoiseBuffer) return this.pinkNoiseBuffer;
+
+    const length = Math.floor(this.context.sampleRate * PINK_NOISE_SECONDS);
+    const buffer = this.context.createBuffer(1, length, this.context.sampleRate);
+    const data = buffer.getChannelData(0);
+    let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+
+    for (let i = 0; i < length; i++) {
+      const white = Math.random() * 2 - 1;
+      b0 = 0.99886 * b0 + white * 0.0555179;
+      b1 = 0.99332 * b1 + white * 0.0750759;
+      b2 = 0.96900 * b2 + white * 0.1538520;
+      b3 = 0.86650 * b3 + white * 0.3104856;
+      b4 = 0.55000 * b4 + white * 0.5329522;
+      b5 = -0.7616 * b5 - white * 0.0168980;
+      data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+      b6 = white * 0.115926;
+    }
+
+    this.pinkNoiseBuffer = buffer;
+    return buffer;
+  }
+
+  // Une mesure de clicks (corps grave + attaque bruitée) jouée en boucle : tempo exact à l'échantillon près
+  private createClickTrackBuffer(bpm: number, beatsPerBar: number): AudioBuffer {
+    const sampleRate = this.context.sampleRate;
+    const beatLength = Math.round((60 / bpm) * sampleRate);
+    const buffer = this.context.createBuffer(1, beatLength * beatsPerBar, sampleRate);
+    const data = buffer.getChannelData(0);
+    const clickLength = Math.min(Math.floor(CLICK_DURATION * sampleRate), beatLength);
+
+    for (let beat = 0; beat < beatsPerBar; beat++) {
+      const accent = beat === 0 ? 1 : 0.6;
+      const offset = beat * beatLength;
+      for (let i = 0; i < clickLength; i++) {
+        const t = i / sampleRate;
+        const envelope = Math.exp(-t * 60);
+        const body = Math.sin(2 * Math.PI * 100 * t);
+        const noise = (Math.random() * 2 - 1) * Math.exp(-t * 400);
+        data[offset + i] = accent * envelope * (0.7 * body + 0.3 * noise);
+      }
+    }
+
+    return buffer;
+  }
+}
@@ -1,7 +1,7 @@
 // Timbre Analysis Utilities for AuraSync
 // Combines pitch detection with spectral features for comprehensive musical analysis
 
-import type { MelodicFeatures, SpectralFeatures } from '../hooks/useAudioAnalyzer';
+import type { MelodicFeatures, SpectralFeatures } from '../types/audio';
 
 export interface TimbreProfile {
   brightness: number; // 0-1, based on spectral centroid
@@ -19,8 +19,33 @@ export interface MusicalContext {
   key: string; // Detected key based on chroma
   mode: 'major' | 'minor' | 'unknown';
   tension: number; // 0-1, harmonic tension measure
+  chord: string; // Detected chord name (e.g. "Am7", "Gsus4"), 'N/A' when no chord matches
+  chordRoot: string; // Root pitch class (e.g. "A"), 'N/A' when no chord matches
+  chordQuality: ChordQuality | 'none';
+  chordConfidence: number; // 0-1, correlation with the best chord template
+  chordChanged: boolean; // True on the frame where the stable chord changes
+  chordChangeTime: number; // Seconds, time of the last chord change
 }
 
+export type ChordQuality = 'major' | 'minor' | 'dominant7' | 'major7' | 'minor7' | 'sus2' | 'sus4' | 'diminished';
+
+// Chord templates: intervals in semitones from the root, and the suffix used in the chord name
+const CHORD_TEMPLATES: { quality: ChordQuality; intervals: number[]; suffix: string }[] = [
+  { quality: 'major', intervals: [0, 4, 7], suffix: '' },
+  { quality: 'minor', intervals: [0, 3, 7], suffix: 'm' },
+  { quality: 'dominant7', intervals: [0, 4, 7, 10], suffix: '7' },
+  { quality: 'major7', intervals: [0, 4, 7, 11], suffix: 'maj7' },
+  { quality: 'minor7', intervals: [0, 3, 7, 10], suffix: 'm7' },
+  { quality: 'sus2', intervals: [0, 2, 7], suffix: 'sus2' },
+  { quality: 'sus4', intervals: [0, 5, 7], suffix: 'sus4' },
+  { quality: 'diminished', intervals: [0, 3, 6], suffix: 'dim' },
+];
+
+const CHORD_CONFIG = {
+  minConfidence: 0.5, // Below this correlation, no chord is reported
+  holdFrames: 8, // A new chord must win this many consecutive frames before it replaces the current one
+};
+
 // Major and minor key profiles for key detection
 const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
 const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
@@ -30,6 +55,12 @@ export class TimbreAnalyzer {
   private chromaHistory: number[][] = [];
   private readonly historySize = 30; // About 1 second at 30fps
 
+  // Chord tracking: current stable chord and the candidate trying to replace it
+  private currentChord: { name: string; root: string; quality: ChordQuality | 'none' } = { name: 'N/A', root: 'N/A', quality: 'none' };
+  private candidateChord = 'N/A';
+  private candidateFrames = 0;
+  private chordChangeTime = 0;
+
   public analyzeTimbre(melodic: MelodicFeatures, spectral: SpectralFeatures): TimbreProfile {
     // Calculate brightness (0-1)
     const brightness = spectral.centroid;
@@ -72,7 +103,7 @@ export class TimbreAnalyzer {
     };
   }
 
-  public analyzeMusicalContext(melodic: MelodicFeatures, timbre: TimbreProfile): MusicalContext {
+  public analyzeMusicalContext(melodic: MelodicFeatures, timbre: TimbreProfile, time: number = 0): MusicalContext {
     // Track note history for stability analysis
     if (melodic.dominantNote !== 'N/A') {
       this.noteHistory.push(melodic.dominantNote);
@@ -104,15 +135,75 @@ export class TimbreAnalyzer {
     // Calculate harmonic tension based on dissonance
     const tension = this.calculateTension(melodic.pitchClass, timbre.harmonicComplexity);
 
+    // Chord recognition on the smoothed chroma, with hysteresis against flickering
+    const detected = this.detectChord(melodic.pitchClass);
+    const chordChanged = this.updateChord(detected, time);
+
     return {
       notePresent,
       noteStability,
       key,
       mode,
-      tension
+      tension,
+      chord: this.currentChord.name,
+      chordRoot: this.currentChord.root,
+      chordQuality: this.currentChord.quality,
+      chordConfidence: this.currentChord.name === detected.name ? detected.confidence : 0,
+      chordChanged,
+      chordChangeTime: this.chordChangeTime
     };
   }
 
+  // Template matching: correlation of the chroma with every chord template in all 12 transpositions
+  public detectChord(chroma: number[]): { name: string; root: string; quality: ChordQuality | 'none'; confidence: number } {
+    const keys = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+    let best = { name: 'N/A', root: 'N/A', quality: 'none' as ChordQuality | 'none', confidence: 0 };
+
+    for (let root = 0; root < 12; root++) {
+      for (const template of CHORD_TEMPLATES) {
+        const profile = new Array(12).fill(0);
+        for (const interval of template.intervals) {
+          profile[(root + interval) % 12] = 1;
+        }
+
+        const correlation = this.correlate(chroma, profile);
+        if (correlation > best.confidence) {
+          best = { name: keys[root] + template.suffix, root: keys[root], quality: template.quality, confidence: correlation };
+        }
+      }
+    }
+
+    if (best.confidence < CHORD_CONFIG.minConfidence) {
+      return { name: 'N/A', root: 'N/A', quality: 'none', confidence: best.confidence };
+    }
+    return best;
+  }
+
+  // Returns true when the stable chord changes
+  private updateChord(detected: { name: string; root: string; quality: ChordQuality | 'none' }, time: number): boolean {
+    if (detected.name === this.currentChord.name) {
+      this.candidateFrames = 0;
+      return false;
+    }
+
+    if (detected.name === this.candidateChord) {
+      this.candidateFrames++;
+    } else {
+      this.candidateChord = detected.name;
+      this.candidateFrames = 1;
+    }
+
+    if (this.candidateFrames < CHORD_CONFIG.holdFrames) return false;
+
+    this.currentChord = { name: detected.name, root: detected.root, quality: detected.quality };
+    this.candidateFrames = 0;
+    // Losing the chord (silence, noise) is not a change: only a new chord counts as an event
+    if (detected.name === 'N/A') return false;
+
+    this.chordChangeTime = time;
+    return true;
+  }
+
   private getMostCommon(arr: string[]): string {
     const counts: { [key: string]: number } = {};
     for (const item of arr) {
@@ -121,7 +212,7 @@ export class TimbreAnalyzer {
     return Object.keys(counts).reduce((a, b) => counts[a] > counts[b] ? a : b);
   }
 
-  private detectKey(chroma: number[]): { key: string; mode: 'major' | 'minor' | 'unknown'; correlation: number } {
+  public detectKey(chroma: number[]): { key: string; mode: 'major' | 'minor' | 'unknown'; correlation: number } {
     const keys = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
     let bestKey = 'C';
     let bestMode: 'major' | 'minor' | 'unknown' = 'unknown';
@@ -216,7 +307,9 @@ export const TimbreUtils = {
     warmth: timbre.warmth,
     complexity: timbre.harmonicComplexity,
     tension: context.tension,
-    mode: context.mode
+    mode: context.mode,
+    chord: context.chord,
+    chordChanged: context.chordChanged
   }),
 
   // Convert chroma to visual intensity for each note
@@ -0,0 +1,425 @@
+/**
+ * Track Pre-Analysis for AuraSync
+ * Décode le morceau complet avec un OfflineAudioContext et le passe dans le moteur d'analyse
+ * pour construire une timeline indexée dans le temps (bandes, onsets, grille de beats, tonalité,
+ * sections, drops). Les scènes peuvent ensuite anticiper ce qui arrive dans les prochaines secondes.
+ * Le décodage reste sur le thread principal (OfflineAudioContext n'existe pas dans un worker),
+ * l'analyse trame par trame tourne dans trackAnalysisWorker.
+ */
+
+import { AudioAnalysisEngine } from './AudioAnalysisEngine';
+import { SpectrumAnalyzer } from './spectrumAnalyzer';
+import { TimbreAnalyzer } from './timbreAnalyzer';
+import type { FrequencyBands, SectionLabel } from '../types/audio';
+import type { TrackAnalysisWorkerRequest, TrackAnalysisWorkerResponse } from '../workers/trackAnalysisWorker';
+
+export interface TimelineFrame {
+    time: number; // Secondes depuis le début du morceau
+    bands: FrequencyBands;
+    energy: number;
+    flux: number;
+    onset: boolean;
+}
+
+export interface TrackSection {
+    start: number;
+    end: number;
+    label: SectionLabel;
+    energy: number; // 0-1, énergie moyenne relative au morceau
+}
+
+export interface TrackAnalysis {
+    duration: number;
+    sampleRate: number;
+    frameRate: number; // Trames de timeline par seconde
+    frames: TimelineFrame[];
+    onsets: number[];
+    beats: number[];
+    bpm: number;
+    key: string;
+    mode: 'major' | 'minor' | 'unknown';
+    sections: TrackSection[];
+    drops: number[];
+}
+
+// Réponse à « que se passe-t-il dans les N prochaines secondes ? »
+export interface LookAhead {
+    time: number;
+    horizon: number;
+    onsets: number[]; // Délais (s) des onsets à venir dans l'horizon
+    beats: number[]; // Délais (s) des beats à venir dans l'horizon
+    nextBeatIn: number | null;
+    nextDropIn: number | null;
+    currentSection: TrackSection | null;
+    nextSection: TrackSection | null;
+    sectionChangeIn: number | null;
+    energyTrend: number; // -1 à 1, énergie moyenne à venir moins énergie actuelle
+    buildup: number; // 0-1, monte linéairement jusqu'au prochain drop dans l'horizon
+}
+
+export interface TrackAnalysisOptions {
+    sampleRate: number;
+    fftSize: number;
+    hopSize: number;
+}
+
+const DEFAULT_OPTIONS: TrackAnalysisOptions = {
+    sampleRate: 44100,
+    fftSize: 2048,
+    hopSize: 1024,
+};
+
+const SECTION_CONFIG = {
+    smoothingWindow: 2, // s, lissage de la courbe d'énergie
+    noveltyWindow: 4, // s, fenêtres comparées de part et d'autre d'une frontière
+    noveltyThreshold: 0.12, // Saut d'énergie relatif minimal pour une frontière
+    minSectionLength: 8, // s
+    highEnergy: 0.7,
+    lowEnergy: 0.6,
+    riseThreshold: 0.15,
+};
+
+const PROGRESS_EVERY = 256; // Trames analysées entre deux remontées d'avancement
+
+// Recherche dichotomique du premier index dont la valeur est >= target
+function lowerBound(values: number[], target: number): number {
+    let lo = 0;
+    let hi = values.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (values[mid] < target) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
+
+function movingAverage(values: number[], radius: number): number[] {
+    const result = new Array(values.length).fill(0);
+    let sum = 0;
+    let count = 0;
+    for (let i = 0; i < values.length + radius; i++) {
+        if (i < values.length) {
+            sum += values[i];
+            count++;
+        }
+        if (i - 2 * radius - 1 >= 0) {
+            sum -= values[i - 2 * radius - 1];
+            count--;
+        }
+        const center = i - radius;
+        if (center >= 0 && center < values.length) {
+            result[center] = sum / count;
+        }
+    }
+    return result;
+}
+
+async function decodeTrack(data: ArrayBuffer, sampleRate: number): Promise<AudioBuffer> {
+    // decodeAudioData rééchantillonne à la fréquence du contexte
+    const OfflineContextClass = window.OfflineAudioContext || (window as unknown as { webkitOfflineAudioContext: typeof OfflineAudioContext }).webkitOfflineAudioContext;
+    const offlineContext = new OfflineContextClass(1, 1, sampleRate);
+    return offlineContext.decodeAudioData(data);
+}
+
+function mixToMono(buffer: AudioBuffer): Float32Array {
+    const mono = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const channel = buffer.getChannelData(c);
+        for (let i = 0; i < channel.length; i++) {
+            mono[i] += channel[i] / buffer.numberOfChannels;
+        }
+    }
+    return mono;
+}
+
+// Grille de beats : période fixe, phase choisie pour maximiser le flux sur la grille
+function buildBeatGrid(frames: TimelineFrame[], bpm: number, frameRate: number, duration: number): number[] {
+    if (bpm <= 0 || frames.length === 0) return [];
+
+    const period = 60 / bpm;
+    const periodFrames = period * frameRate;
+    const candidates = Math.max(1, Math.floor(periodFrames));
+
+    let bestOffset = 0;
+    let bestScore = -Infinity;
+    for (let offset = 0; offset < candidates; offset++) {
+        let score = 0;
+        for (let position = offset; position < frames.length; position += periodFrames) {
+            score += frames[Math.round(position)]?.flux ?? 0;
+        }
+        if (score > bestScore) {
+            bestScore = score;
+            bestOffset = offset;
+        }
+    }
+
+    const beats: number[] = [];
+    for (let time = bestOffset / frameRate; time < duration; time += period) {
+        beats.push(time);
+    }
+    return beats;
+}
+
+// Segmentation par nouveauté d'énergie, puis étiquetage selon le niveau et la pente
+function detectSections(frames: TimelineFrame[], frameRate: number, duration: number): TrackSection[] {
+    if (frames.length === 0) return [];
+
+    const smoothed = movingAverage(frames.map(f => f.energy), Math.round(SECTION_CONFIG.smoothingWindow * frameRate / 2));
+    // Boucle plutôt que Math.max(...) : un mix de plus d'une heure dépasse la limite d'arguments
+    let maxEnergy = 0;
+    for (const value of smoothed) {
+        if (value > maxEnergy) maxEnergy = value;
+    }
+    maxEnergy = maxEnergy || 1;
+    const energy = smoothed.map(e => e / maxEnergy);
+
+    const noveltyFrames = Math.round(SECTION_CONFIG.noveltyWindow * frameRate);
+    const minGap = Math.round(SECTION_CONFIG.minSectionLength * frameRate);
+    const mean = (from: number, to: number) => {
+        let sum = 0;
+        for (let i = from; i < to; i++) sum += energy[i];
+        return to > from ? sum / (to - from) : 0;
+    };
+
+    const novelty = energy.map((_, i) =>
+        i < noveltyFrames || i + noveltyFrames > energy.length
+            ? 0
+            : Math.abs(mean(i, i + noveltyFrames) - mean(i - noveltyFrames, i))
+    );
+
+    const boundaries = [0];
+    for (let i = 1; i < novelty.length - 1; i++) {
+        const isPeak = novelty[i] >= novelty[i - 1] && novelty[i] > novelty[i + 1];
+        if (isPeak && novelty[i] > SECTION_CONFIG.noveltyThreshold && i - boundaries[boundaries.length - 1] >= minGap) {
+            boundaries.push(i);
+        }
+    }
+    boundaries.push(energy.length);
+
+    const sections: TrackSection[] = [];
+    for (let s = 0; s < boundaries.length - 1; s++) {
+        const from = boundaries[s];
+        const to = boundaries[s + 1];
+        const sectionEnergy = mean(from, to);
+        const quarter = Math.max(1, Math.floor((to - from) / 4));
+        const rise = mean(to - quarter, to) - mean(from, from + quarter);
+
+        let label: SectionLabel;
+        if (sectionEnergy >= SECTION_CONFIG.highEnergy) {
+            label = 'drop';
+        } else if (s === 0 && sectionEnergy < SECTION_CONFIG.lowEnergy) {
+            label = 'intro';
+        } else if (s === boundaries.length - 2 && sectionEnergy < SECTION_CONFIG.lowEnergy) {
+            label = 'outro';
+        } else if (rise > SECTION_CONFIG.riseThreshold) {
+            label = 'buildup';
+        } else {
+            label = 'breakdown';
+        }
+
+        sections.push({
+            start: from / frameRate,
+            end: s === boundaries.length - 2 ? duration : to / frameRate,
+            label,
+            energy: sectionEnergy,
+        });
+    }
+    return sections;
+}
+
+/**
+ * Analyse complète d'un morceau, hors temps réel.
+ * @param data Contenu encodé du fichier (mp3, wav, ogg...).
+ * @param onProgress Avancement de 0 à 1.
+ * @param signal Annule l'analyse (le worker est arrêté) ; la promesse est alors rejetée avec une AbortError.
+ */
+export async function analyzeTrack(
+    data: ArrayBuffer,
+    onProgress?: (progress: number) => void,
+    options: Partial<TrackAnalysisOptions> = {},
+    signal?: AbortSignal
+): Promise<TrackAnalysis> {
+    const resolved = { ...DEFAULT_OPTIONS, ...options };
+
+    const buffer = await decodeTrack(data, resolved.sampleRate);
+    signal?.throwIfAborted();
+    const samples = mixToMono(buffer);
+
+    const worker = new Worker(new URL('../workers/trackAnalysisWorker.ts', import.meta.url), { type: 'module' });
+    try {
+        return await new Promise<TrackAnalysis>((resolve, reject) => {
+            const abort = () => reject(signal?.reason ?? new DOMException('Analyse annulée', 'AbortError'));
+            signal?.addEventListener('abort', abort, { once: true });
+
+            worker.onmessage = (event: MessageEvent<TrackAnalysisWorkerResponse>) => {
+                const message = event.data;
+                if (message.type === 'progress') {
+                    onProgress?.(message.progress);
+                } else if (message.type === 'done') {
+                    signal?.removeEventListener('abort', abort);
+                    resolve(message.analysis);
+                } else {
+                    signal?.removeEventListener('abort', abort);
+                    reject(new Error(message.message));
+                }
+            };
+            worker.onerror = (event) => {
+                signal?.removeEventListener('abort', abort);
+                reject(new Error(event.message));
+            };
+
+            const request: TrackAnalysisWorkerRequest = { type: 'analyze', samples, duration: buffer.duration, options: resolved };
+            worker.postMessage(request, [samples.buffer]);
+        });
+    } finally {
+        worker.terminate();
+    }
+}
+
+/**
+ * Analyse d'un signal mono déjà décodé (appelée dans trackAnalysisWorker : la boucle est synchrone).
+ * @param samples Signal mono à options.sampleRate.
+ * @param duration Durée en secondes.
+ */
+export function analyzeSamples(
+    samples: Float32Array,
+    duration: number,
+    options: TrackAnalysisOptions,
+    onProgress?: (progress: number) => void
+): TrackAnalysis {
+    const { sampleRate, fftSize, hopSize } = options;
+    const frameRate = sampleRate / hopSize;
+
+    const engine = new AudioAnalysisEngine();
+    const spectrum = new SpectrumAnalyzer({ fftSize });
+    const timbreAnalyzer = new TimbreAnalyzer();
+    const frameWindow = new Float32Array(fftSize);
+
+    const frames: TimelineFrame[] = [];
+    const bpmEstimates: number[] = [];
+    const chromaSum = new Array(12).fill(0);
+
+    const frameCount = Math.floor(samples.length / hopSize);
+    for (let f = 0; f < frameCount; f++) {
+        const end = (f + 1) * hopSize;
+        const start = Math.max(0, end - fftSize);
+        frameWindow.fill(0);
+        frameWindow.set(samples.subarray(start, end), fftSize - (end - start));
+
+        const time = end / sampleRate;
+        const audioData = engine.analyze({
+            frequencies: spectrum.getByteFrequencyData(frameWindow),
+            waveform: spectrum.getByteTimeDomainData(frameWindow),
+            sampleRate,
+            time,
+            // La timeline n'utilise pas la hauteur par trame (le chroma vient du spectre) : pas de YIN
+            skipPitch: true,
+        });
+
+        frames.push({
+            time,
+            bands: audioData.bands,
+            energy: audioData.energy,
+            flux: audioData.spectralFeatures.flux,
+            onset: audioData.transients.overall,
+        });
+
+        if (audioData.rhythmicFeatures.bpm > 0 && audioData.rhythmicFeatures.bpmConfidence > 50) {
+            bpmEstimates.push(audioData.rhythmicFeatures.bpm);
+        }
+        for (let i = 0; i < 12; i++) {
+            chromaSum[i] += audioData.melodicFeatures.pitchClass[i];
+        }
+
+        if (f % PROGRESS_EVERY === 0) {
+            onProgress?.(f / frameCount);
+        }
+    }
+
+    const sortedBpm = [...bpmEstimates].sort((a, b) => a - b);
+    const bpm = sortedBpm.length > 0 ? sortedBpm[Math.floor(sortedBpm.length / 2)] : 0;
+    const { key, mode } = timbreAnalyzer.detectKey(chromaSum);
+    const sections = detectSections(frames, frameRate, duration);
+    const drops = sections
+        .filter((section, i) => section.label === 'drop' && (i === 0 || sections[i - 1].label !== 'drop'))
+        .map(section => section.start);
+
+    onProgress?.(1);
+
+    return {
+        duration,
+        sampleRate,
+        frameRate,
+        frames,
+        onsets: frames.filter(frame => frame.onset).map(frame => frame.time),
+        beats: buildBeatGrid(frames, bpm, frameRate, duration),
+        bpm,
+        key,
+        mode,
+        sections,
+        drops,
+    };
+}
+
+export class FeatureTimeline {
+    public readonly analysis: TrackAnalysis;
+
+    constructor(analysis: TrackAnalysis) {
+        this.analysis = analysis;
+    }
+
+    public frameAt(time: number): TimelineFrame | null {
+        const { frames, frameRate } = this.analysis;
+        if (frames.length === 0) return null;
+        const index = Math.min(frames.length - 1, Math.max(0, Math.round(time * frameRate) - 1));
+        return frames[index];
+    }
+
+    public sectionAt(time: number): TrackSection | null {
+        return this.analysis.sections.find(section => time >= section.start && time < section.end) ?? null;
+    }
+
+    public lookAhead(time: number, horizon: number = 2): LookAhead {
+        const { onsets, beats, drops, sections, frames, frameRate } = this.analysis;
+        const until = time + horizon;
+
+        const upcoming = (events: number[]) => {
+            const result: number[] = [];
+            for (let i = lowerBound(events, time); i < events.length && events[i] <= until; i++) {
+                result.push(events[i] - time);
+            }
+            return result;
+        };
+
+        const upcomingBeats = upcoming(beats);
+        const upcomingDrops = upcoming(drops);
+
+        const currentSection = this.sectionAt(time);
+        const nextSection = sections.find(section => section.start > time) ?? null;
+        const sectionChangeIn = nextSection && nextSection.start <= until ? nextSection.start - time : null;
+
+        // Tendance d'énergie : moyenne à venir comparée à la trame courante
+        const current = this.frameAt(time)?.energy ?? 0;
+        const from = Math.max(0, Math.round(time * frameRate));
+        const to = Math.min(frames.length, Math.round(until * frameRate));
+        let futureEnergy = 0;
+        for (let i = from; i < to; i++) futureEnergy += frames[i].energy;
+        const energyTrend = to > from ? Math.max(-1, Math.min(1, futureEnergy / (to - from) - current)) : 0;
+
+        const nextDropIn = upcomingDrops.length > 0 ? upcomingDrops[0] : null;
+
+        return {
+            time,
+            horizon,
+            onsets: upcoming(onsets),
+            beats: upcomingBeats,
+            nextBeatIn: upcomingBeats.length > 0 ? upcomingBeats[0] : null,
+            nextDropIn,
+            currentSection,
+            nextSection,
+            sectionChangeIn,
+            energyTrend,
+            buildup: nextDropIn !== null ? 1 - nextDropIn / horizon : 0,
+        };
+    }
+}
@@ -0,0 +1,102 @@
+// Client du pipeline d'analyse hors thread principal
+// [Entrée] -> AudioWorkletNode (capture) --MessagePort--> Worker (analyse) --> onAudioData
+import captureProcessorUrl from './sampleCaptureProcessor?worker&url';
+import type { AudioData } from '../types/audio';
+import type { BandLayout } from '../utils/bandLayout';
+import type { BPMDetectorOptions } from '../utils/BPMDetector';
+import type { AudioConfig } from '../types/config';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from './audioAnalysisWorker';
+
+const SAMPLE_CAPTURE_PROCESSOR = 'sample-capture-processor';
+
+export class AnalysisWorkerClient {
+  private worker: Worker;
+  private captureNode: AudioWorkletNode;
+
+  private constructor(worker: Worker, captureNode: AudioWorkletNode, onAudioData: (audioData: AudioData) => void) {
+    this.worker = worker;
+    this.captureNode = captureNode;
+
+    this.worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      if (event.data.type === 'audioData') {
+        onAudioData(event.data.audioData);
+      }
+    };
+  }
+
+  public static isSupported(context: BaseAudioContext): boolean {
+    return typeof Worker !== 'undefined' && typeof AudioWorkletNode !== 'undefined' && !!context.audioWorklet;
+  }
+
+  // Charge le worklet, démarre le worker et relie les deux par un MessageChannel
+  public static async create(context: AudioContext, onAudioData: (audioData: AudioData) => void): Promise<AnalysisWorkerClient> {
+    await context.audioWorklet.addModule(captureProcessorUrl);
+
+    const captureNode = new AudioWorkletNode(context, SAMPLE_CAPTURE_PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 2,
+      channelCountMode: 'explicit',
+    });
+    // La sortie est silencieuse ; la connexion à la destination garantit que le nœud est traité
+    captureNode.connect(context.destination);
+
+    const worker = new Worker(new URL('./audioAnalysisWorker.ts', import.meta.url), { type: 'module' });
+    const channel = new MessageChannel();
+
+    const client = new AnalysisWorkerClient(worker, captureNode, onAudioData);
+    client.post({ type: 'init', port: channel.port2 }, [channel.port2]);
+    captureNode.port.postMessage({ type: 'connect', port: channel.port1 }, [channel.port1]);
+
+    return client;
+  }
+
+  // Point d'entrée du graphe : les sources à analyser se connectent ici
+  get input(): AudioNode {
+    return this.captureNode;
+  }
+
+  public reset(): void {
+    this.post({ type: 'reset' });
+  }
+
+  public setBandLayout(layout: BandLayout): void {
+    this.post({ type: 'setBandLayout', layout });
+  }
+
+  public setTempoOptions(options: Partial<BPMDetectorOptions>): void {
+    this.post({ type: 'setTempoOptions', options });
+  }
+
+  // Contrôles manuels du tempo et de la phase (appliqués à la prochaine trame du worker)
+  public setManualBPM(bpm: number | null): void {
+    this.post({ type: 'setManualBPM', bpm });
+  }
+
+  public nudgeBeat(beats: number): void {
+    this.post({ type: 'nudgeBeat', beats });
+  }
+
+  public alignBeat(): void {
+    this.post({ type: 'alignBeat' });
+  }
+
+  public resyncOnNextKick(): void {
+    this.post({ type: 'resyncOnNextKick' });
+  }
+
+  // Taille de FFT, lissage et plage en dB des analyseurs logiciels du worker
+  public configure(config: AudioConfig): void {
+    this.post({ type: 'configure', config });
+  }
+
+  public dispose(): void {
+    this.captureNode.disconnect();
+    this.captureNode.port.close();
+    this.worker.terminate();
+  }
+
+  private post(message: AnalysisWorkerRequest, transfer: Transferable[] = []): void {
+    this.worker.postMessage(message, transfer);
+  }
+}
@@ -0,0 +1,165 @@
+// Web Worker d'analyse audio pour AuraSync
+// Reçoit les échantillons bruts de l'AudioWorklet de capture, calcule toutes les
+// features de l'AudioData hors du thread de rendu et renvoie le résultat par transfert.
+
+import { AudioAnalysisEngine } from '../utils/AudioAnalysisEngine';
+import { SpectrumAnalyzer } from '../utils/spectrumAnalyzer';
+import { SampleRingBuffer } from '../utils/sampleRingBuffer';
+import type { AudioData } from '../types/audio';
+import type { BandLayout } from '../utils/bandLayout';
+import type { BPMDetectorOptions } from '../utils/BPMDetector';
+import { DEFAULT_AUDIO_CONFIG, type AudioConfig } from '../types/config';
+
+// --- Protocole de messages ---
+export type AnalysisWorkerRequest =
+  | { type: 'init'; port: MessagePort }
+  | { type: 'reset' }
+  | { type: 'setBandLayout'; layout: BandLayout }
+  | { type: 'setTempoOptions'; options: Partial<BPMDetectorOptions> }
+  | { type: 'setManualBPM'; bpm: number | null }
+  | { type: 'nudgeBeat'; beats: number }
+  | { type: 'alignBeat' }
+  | { type: 'resyncOnNextKick' }
+  | { type: 'configure'; config: AudioConfig };
+
+export type AnalysisWorkerResponse =
+  | { type: 'audioData'; audioData: AudioData };
+
+type CaptureMessage =
+  | { type: 'format'; sampleRate: number }
+  | { type: 'samples'; left: Float32Array; right: Float32Array };
+
+const engine = new AudioAnalysisEngine();
+let config: AudioConfig = DEFAULT_AUDIO_CONFIG;
+// Un analyseur par canal : chacun garde son propre lissage temporel
+let spectrum = new SpectrumAnalyzer(config);
+let leftSpectrum = new SpectrumAnalyzer(config);
+let rightSpectrum = new SpectrumAnalyzer(config);
+// Derniers fftSize échantillons, mono (moyenne L/R) et par canal
+let sampleWindow = new Float32Array(config.fftSize);
+let leftWindow = new Float32Array(config.fftSize);
+let rightWindow = new Float32Array(config.fftSize);
+// Fenêtre longue pleine précision pour YIN (indépendante de fftSize)
+const pitchBuffer = new SampleRingBuffer(config.sampleBufferSize);
+let sampleRate = 44100;
+let processedSamples = 0;
+
+const pushInto = (target: Float32Array, samples: Float32Array) => {
+  const size = target.length;
+  if (samples.length >= size) {
+    target.set(samples.subarray(samples.length - size));
+  } else {
+    target.copyWithin(0, samples.length);
+    target.set(samples, size - samples.length);
+  }
+};
+
+// Redimensionne une fenêtre en conservant les échantillons les plus récents
+const resizeWindow = (previous: Float32Array, size: number): Float32Array => {
+  const resized = new Float32Array(size);
+  pushInto(resized, previous);
+  return resized;
+};
+
+const configure = (next: AudioConfig) => {
+  config = next;
+  spectrum = new SpectrumAnalyzer(config);
+  leftSpectrum = new SpectrumAnalyzer(config);
+  rightSpectrum = new SpectrumAnalyzer(config);
+  pitchBuffer.resize(config.sampleBufferSize);
+  if (sampleWindow.length !== config.fftSize) {
+    sampleWindow = resizeWindow(sampleWindow, config.fftSize);
+    leftWindow = resizeWindow(leftWindow, config.fftSize);
+    rightWindow = resizeWindow(rightWindow, config.fftSize);
+  }
+};
+
+const pushSamples = (left: Float32Array, right: Float32Array) => {
+  const mono = new Float32Array(left.length);
+  for (let i = 0; i < left.length; i++) {
+    mono[i] = (left[i] + right[i]) / 2;
+  }
+  pushInto(sampleWindow, mono);
+  pitchBuffer.push(mono);
+  pushInto(leftWindow, left);
+  pushInto(rightWindow, right);
+  processedSamples += left.length;
+};
+
+const analyzeWindow = () => {
+  const audioData = engine.analyze({
+    frequencies: spectrum.getByteFrequencyData(sampleWindow),
+    waveform: spectrum.getByteTimeDomainData(sampleWindow),
+    sampleRate,
+    time: processedSamples / sampleRate,
+    decibelRange: config.maxDecibels - config.minDecibels,
+    samples: pitchBuffer.isFull ? pitchBuffer.read() : undefined,
+    channels: {
+      left: {
+        frequencies: leftSpectrum.getByteFrequencyData(leftWindow),
+        waveform: leftSpectrum.getByteTimeDomainData(leftWindow),
+      },
+      right: {
+        frequencies: rightSpectrum.getByteFrequencyData(rightWindow),
+        waveform: rightSpectrum.getByteTimeDomainData(rightWindow),
+      },
+    },
+  });
+
+  // Les buffers typés sont transférés (pas de copie) : l'engine en alloue de nouveaux à chaque trame
+  const response: AnalysisWorkerResponse = { type: 'audioData', audioData };
+  self.postMessage(response, {
+    transfer: [audioData.frequencies.buffer, audioData.waveform.buffer],
+  });
+};
+
+const handleCaptureMessage = (event: MessageEvent<CaptureMessage>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'format':
+      sampleRate = message.sampleRate;
+      break;
+    case 'samples':
+      pushSamples(message.left, message.right);
+      analyzeWindow();
+      break;
+  }
+};
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'init':
+      message.port.onmessage = handleCaptureMessage;
+      break;
+    case 'reset':
+      engine.reset();
+      sampleWindow.fill(0);
+      leftWindow.fill(0);
+      rightWindow.fill(0);
+      pitchBuffer.clear();
+      processedSamples = 0;
+      break;
+    case 'setBandLayout':
+      engine.setBandLayout(message.layout);
+      break;
+    case 'setTempoOptions':
+      engine.setTempoOptions(message.options);
+      break;
+    case 'setManualBPM':
+      engine.setManualBPM(message.bpm);
+      break;
+    case 'nudgeBeat':
+      engine.nudgeBeat(message.beats);
+      break;
+    case 'alignBeat':
+      engine.alignBeat();
+      break;
+    case 'resyncOnNextKick':
+      engine.resyncOnNextKick();
+      break;
+    case 'configure':
+      configure(message.config);
+      break;
+  }
+};
@@ -0,0 +1,121 @@
+// Client du conditionnement micro (noise gate + AGC) exécuté dans un AudioWorklet
+// [Micro] -> gain d'entrée -> AudioWorkletNode (gate, AGC, limiteur) -> analyse
+import conditioningProcessorUrl from './micConditioningProcessor?worker&url';
+import {
+  MIC_CONDITIONING_PROCESSOR,
+  type MicConditioningMessage,
+  type MicConditioningOptions,
+  type MicLevelReport,
+} from './micConditioningProtocol';
+import type { MicProcessingConfig } from '../types/config';
+
+export type MicLevel = Omit<MicLevelReport, 'type'>;
+
+const CALIBRATION_CONFIG = {
+  percentile: 0.9, // Bruit de fond = 90e centile des niveaux mesurés (quelques bruits isolés n'y changent rien)
+  defaultNoiseFloor: -70, // dBFS, en l'absence de calibration
+};
+
+export class MicConditionerClient {
+  private node: AudioWorkletNode;
+  private levelListeners = new Set<(level: MicLevel) => void>();
+  private config: MicProcessingConfig;
+  private noiseFloor = CALIBRATION_CONFIG.defaultNoiseFloor;
+
+  private constructor(node: AudioWorkletNode, config: MicProcessingConfig) {
+    this.node = node;
+    this.config = config;
+
+    this.node.port.onmessage = (event: MessageEvent<MicLevelReport>) => {
+      if (event.data.type === 'level') {
+        const { input, gain, gateOpen } = event.data;
+        this.levelListeners.forEach(listener => listener({ input, gain, gateOpen }));
+      }
+    };
+    this.sendOptions();
+  }
+
+  public static isSupported(context: BaseAudioContext): boolean {
+    return typeof AudioWorkletNode !== 'undefined' && !!context.audioWorklet;
+  }
+
+  public static async create(context: AudioContext, config: MicProcessingConfig): Promise<MicConditionerClient> {
+    await context.audioWorklet.addModule(conditioningProcessorUrl);
+
+    const node = new AudioWorkletNode(context, MIC_CONDITIONING_PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+    });
+    return new MicConditionerClient(node, config);
+  }
+
+  get input(): AudioNode {
+    return this.node;
+  }
+
+  get output(): AudioNode {
+    return this.node;
+  }
+
+  public configure(config: MicProcessingConfig): void {
+    this.config = config;
+    this.sendOptions();
+  }
+
+  // Bruit de fond du périphérique actif (null = pas de calibration : seuil par défaut)
+  public setNoiseFloor(noiseFloor: number | null): void {
+    this.noiseFloor = noiseFloor ?? CALIBRATION_CONFIG.defaultNoiseFloor;
+    this.sendOptions();
+  }
+
+  // Abonnement aux niveaux remontés par le worklet (~10 par seconde) ; renvoie le désabonnement
+  public onLevel(listener: (level: MicLevel) => void): () => void {
+    this.levelListeners.add(listener);
+    return () => {
+      this.levelListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Mesure le bruit de fond de la salle : la salle doit rester silencieuse pendant la mesure.
+   * Les niveaux sont ceux de l'entrée du worklet (après le gain d'entrée manuel, avant gate et AGC) :
+   * l'appelant mémorise le gain d'entrée de la mesure pour recaler le bruit de fond s'il change ensuite.
+   * @param duration Durée de la mesure en secondes
+   * @returns Le bruit de fond en dBFS RMS
+   */
+  public calibrate(duration: number = 3): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const levels: number[] = [];
+      const unsubscribe = this.onLevel(level => levels.push(level.input));
+
+      setTimeout(() => {
+        unsubscribe();
+        if (levels.length === 0) {
+          reject(new Error("Aucun niveau reçu de l'entrée micro pendant la calibration"));
+          return;
+        }
+        levels.sort((a, b) => a - b);
+        resolve(levels[Math.min(levels.length - 1, Math.floor(levels.length * CALIBRATION_CONFIG.percentile))]);
+      }, duration * 1000);
+    });
+  }
+
+  public dispose(): void {
+    this.levelListeners.clear();
+    this.node.disconnect();
+    this.node.port.close();
+  }
+
+  private sendOptions(): void {
+    const options: MicConditioningOptions = {
+      gateEnabled: this.config.gateEnabled,
+      gateThreshold: this.noiseFloor + this.config.gateMargin,
+      agcEnabled: this.config.agcEnabled,
+      agcTarget: this.config.agcTarget,
+      agcMaxGain: this.config.agcMaxGain,
+    };
+    const message: MicConditioningMessage = { type: 'configure', options };
+    this.node.port.postMessage(message);
+  }
+}
@@ -0,0 +1,157 @@
+// AudioWorklet de conditionnement micro pour AuraSync
+// Noise gate (seuil relatif au bruit de fond calibré) puis contrôle automatique de gain,
+// appliqués à l'entrée micro avant l'analyse. Remonte régulièrement les niveaux au thread principal
+// (mesure du bruit de fond pendant la calibration, affichage).
+
+import {
+  MIC_CONDITIONING_PROCESSOR,
+  type MicConditioningMessage,
+  type MicConditioningOptions,
+  type MicLevelReport,
+} from './micConditioningProtocol';
+
+// Déclarations minimales du scope AudioWorkletGlobalScope (absent de lib.dom)
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor();
+}
+
+const CONDITIONING_CONFIG = {
+  floor: -100, // dBFS rapportés pour un silence numérique
+  detectorAttack: 0.01, // s
+  detectorRelease: 0.1,
+  gateHysteresis: 3, // dB sous le seuil avant de refermer
+  gateHold: 0.15, // s ouvert après le dernier passage au-dessus du seuil
+  gateAttack: 0.005,
+  gateRelease: 0.08,
+  agcWindow: 3, // s, constante de temps du niveau moyen suivi par l'AGC
+  agcRise: 2, // s pour monter le gain (lent : pas de pompage)
+  agcFall: 0.3, // s pour le baisser (rapide : pas de saturation)
+  limit: 0.98, // Crête maximale en sortie
+  reportInterval: 0.1, // s
+};
+
+const toDb = (linear: number) => (linear > 0 ? Math.max(CONDITIONING_CONFIG.floor, 20 * Math.log10(linear)) : CONDITIONING_CONFIG.floor);
+const coefficient = (time: number, blockSize: number) => Math.exp(-blockSize / (time * sampleRate));
+
+class MicConditioningProcessor extends AudioWorkletProcessor {
+  private options: MicConditioningOptions = {
+    gateEnabled: false,
+    gateThreshold: CONDITIONING_CONFIG.floor,
+    agcEnabled: false,
+    agcTarget: -20,
+    agcMaxGain: 24,
+  };
+
+  private envelope = 0; // Niveau RMS rapide (détecteur du gate)
+  private averagePower = 0; // Puissance moyenne lente (AGC), mesurée gate ouvert
+  private gateOpen = false;
+  private gateHoldUntil = 0;
+  private gateGain = 1;
+  private agcGain = 1;
+
+  private reportPower = 0;
+  private reportSamples = 0;
+  private clock = 0; // Secondes écoulées
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<MicConditioningMessage>) => {
+      if (event.data.type === 'configure') {
+        this.options = event.data.options;
+        // Départ au niveau visé : l'AGC ne part pas du gain maximal avant le premier son
+        if (this.averagePower === 0) this.averagePower = Math.pow(10, this.options.agcTarget / 10);
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+
+    const blockSize = input[0].length;
+    this.clock += blockSize / sampleRate;
+
+    // 1. Détection : puissance du bloc, tous canaux confondus
+    let power = 0;
+    for (const channel of input) {
+      for (let i = 0; i < blockSize; i++) power += channel[i] * channel[i];
+    }
+    power /= blockSize * input.length;
+    const rms = Math.sqrt(power);
+    this.reportPower += power * blockSize;
+    this.reportSamples += blockSize;
+
+    const detector = rms > this.envelope
+      ? coefficient(CONDITIONING_CONFIG.detectorAttack, blockSize)
+      : coefficient(CONDITIONING_CONFIG.detectorRelease, blockSize);
+    this.envelope = rms + (this.envelope - rms) * detector;
+
+    // 2. Noise gate avec hystérésis et maintien
+    const level = toDb(this.envelope);
+    if (!this.options.gateEnabled || level >= this.options.gateThreshold) {
+      this.gateOpen = true;
+      this.gateHoldUntil = this.clock + CONDITIONING_CONFIG.gateHold;
+    } else if (level < this.options.gateThreshold - CONDITIONING_CONFIG.gateHysteresis && this.clock >= this.gateHoldUntil) {
+      this.gateOpen = false;
+    }
+    const gateTarget = this.gateOpen ? 1 : 0;
+    const gateCoefficient = gateTarget > this.gateGain
+      ? coefficient(CONDITIONING_CONFIG.gateAttack, blockSize)
+      : coefficient(CONDITIONING_CONFIG.gateRelease, blockSize);
+    this.gateGain = gateTarget + (this.gateGain - gateTarget) * gateCoefficient;
+
+    // 3. AGC : niveau moyen suivi seulement gate ouvert (le bruit de la salle ne fait pas monter le gain)
+    if (this.options.agcEnabled) {
+      if (this.gateOpen) {
+        const window = coefficient(CONDITIONING_CONFIG.agcWindow, blockSize);
+        this.averagePower = power + (this.averagePower - power) * window;
+      }
+      const averageDb = toDb(Math.sqrt(this.averagePower));
+      const desiredDb = Math.max(-this.options.agcMaxGain, Math.min(this.options.agcMaxGain, this.options.agcTarget - averageDb));
+      const desired = Math.pow(10, desiredDb / 20);
+      const agcCoefficient = desired > this.agcGain
+        ? coefficient(CONDITIONING_CONFIG.agcRise, blockSize)
+        : coefficient(CONDITIONING_CONFIG.agcFall, blockSize);
+      this.agcGain = desired + (this.agcGain - desired) * agcCoefficient;
+    } else {
+      this.agcGain = 1;
+    }
+
+    // 4. Application, avec limiteur de crête pour ne jamais saturer l'analyse
+    let peak = 0;
+    for (const channel of input) {
+      for (let i = 0; i < blockSize; i++) peak = Math.max(peak, Math.abs(channel[i]));
+    }
+    let gain = this.gateGain * this.agcGain;
+    if (peak * gain > CONDITIONING_CONFIG.limit) {
+      gain = CONDITIONING_CONFIG.limit / peak;
+    }
+
+    for (let c = 0; c < output.length; c++) {
+      const source = input[Math.min(c, input.length - 1)];
+      const destination = output[c];
+      for (let i = 0; i < blockSize; i++) destination[i] = source[i] * gain;
+    }
+
+    // 5. Remontée des niveaux
+    if (this.reportSamples >= CONDITIONING_CONFIG.reportInterval * sampleRate) {
+      const report: MicLevelReport = {
+        type: 'level',
+        input: toDb(Math.sqrt(this.reportPower / this.reportSamples)),
+        gain: toDb(this.agcGain),
+        gateOpen: this.gateOpen,
+      };
+      this.port.postMessage(report);
+      this.reportPower = 0;
+      this.reportSamples = 0;
+    }
+
+    return true;
+  }
+}
+
+registerProcessor(MIC_CONDITIONING_PROCESSOR, MicConditioningProcessor);
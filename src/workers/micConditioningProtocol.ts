@@ -0,0 +1,21 @@
+// Protocole partagé entre le worklet de conditionnement micro et son client
+// (module sans effet de bord : importable des deux côtés)
+
+export const MIC_CONDITIONING_PROCESSOR = 'mic-conditioning-processor';
+
+export interface MicConditioningOptions {
+  gateEnabled: boolean;
+  gateThreshold: number; // dBFS RMS d'ouverture du gate (bruit de fond + marge)
+  agcEnabled: boolean;
+  agcTarget: number; // dBFS RMS
+  agcMaxGain: number; // dB
+}
+
+export type MicConditioningMessage = { type: 'configure'; options: MicConditioningOptions };
+
+export interface MicLevelReport {
+  type: 'level';
+  input: number; // dBFS RMS de l'entrée sur la période
+  gain: number; // dB appliqués par l'AGC
+  gateOpen: boolean;
+}
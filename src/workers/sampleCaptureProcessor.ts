@@ -0,0 +1,65 @@
+// AudioWorklet de capture pour AuraSync
+// Envoie des blocs d'échantillons bruts (gauche / droite) au worker d'analyse
+// via un MessagePort dédié, sans passer par le thread principal.
+
+// Déclarations minimales du scope AudioWorkletGlobalScope (absent de lib.dom)
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor();
+}
+
+const SAMPLE_CAPTURE_PROCESSOR = 'sample-capture-processor';
+const CHUNK_SIZE = 1024; // 8 quanta de rendu de 128 échantillons
+
+class SampleCaptureProcessor extends AudioWorkletProcessor {
+  private targetPort: MessagePort | null = null;
+  private left = new Float32Array(CHUNK_SIZE);
+  private right = new Float32Array(CHUNK_SIZE);
+  private writeIndex = 0;
+
+  constructor() {
+    super();
+    // Le thread principal nous transmet le port qui mène au worker
+    this.port.onmessage = (event: MessageEvent<{ type: 'connect'; port: MessagePort }>) => {
+      if (event.data.type === 'connect') {
+        this.targetPort = event.data.port;
+        this.targetPort.postMessage({ type: 'format', sampleRate });
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    if (!this.targetPort || !input || input.length === 0) return true;
+
+    const frameCount = input[0].length;
+    // Entrée mono : le même signal sur les deux canaux
+    const leftInput = input[0];
+    const rightInput = input.length > 1 ? input[1] : input[0];
+
+    for (let i = 0; i < frameCount; i++) {
+      this.left[this.writeIndex] = leftInput[i];
+      this.right[this.writeIndex] = rightInput[i];
+      this.writeIndex++;
+
+      if (this.writeIndex === CHUNK_SIZE) {
+        // Transfert des buffers : pas de copie, on en alloue de nouveaux
+        this.targetPort.postMessage(
+          { type: 'samples', left: this.left, right: this.right },
+          [this.left.buffer, this.right.buffer]
+        );
+        this.left = new Float32Array(CHUNK_SIZE);
+        this.right = new Float32Array(CHUNK_SIZE);
+        this.writeIndex = 0;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor(SAMPLE_CAPTURE_PROCESSOR, SampleCaptureProcessor);
+
+export {};
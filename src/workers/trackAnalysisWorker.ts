@@ -0,0 +1,32 @@
+// Web Worker de pré-analyse de morceau pour AuraSync
+// Reçoit le signal mono décodé sur le thread principal et fait tourner le moteur d'analyse
+// sur toutes les trames du morceau sans bloquer le rendu. Une annulation termine le worker.
+
+import { analyzeSamples, type TrackAnalysis, type TrackAnalysisOptions } from '../utils/trackPreAnalysis';
+
+// --- Protocole de messages ---
+export type TrackAnalysisWorkerRequest =
+  | { type: 'analyze'; samples: Float32Array; duration: number; options: TrackAnalysisOptions };
+
+export type TrackAnalysisWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; analysis: TrackAnalysis }
+  | { type: 'error'; message: string };
+
+const post = (message: TrackAnalysisWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = (event: MessageEvent<TrackAnalysisWorkerRequest>) => {
+  const message = event.data;
+  if (message.type !== 'analyze') return;
+
+  try {
+    const analysis = analyzeSamples(message.samples, message.duration, message.options, (progress) => {
+      post({ type: 'progress', progress });
+    });
+    post({ type: 'done', analysis });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};